@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+"use strict";
+
+const fs = require("fs");
+const path = require("path");
+
+// Publish the config schema the CLI validates against, for editor completion
+const { configSchema } = require(path.join(__dirname, "..", "dist", "cjs", "schema.js"));
+const outFile = path.join(__dirname, "..", "typemockr.schema.json");
+
+fs.writeFileSync(outFile, JSON.stringify(configSchema, null, 2) + "\n", "utf-8");
+console.log("Generated", outFile);
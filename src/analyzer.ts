@@ -37,6 +37,10 @@ export function collectRefsFromProp(prop: ASTPropertyValue, acc: Set<string>) {
       for (const p of (prop as any).value as any[])
         collectRefsFromProp(p as any, acc);
       return;
+    case "indexSignature":
+      collectRefsFromProp(prop.keyType, acc);
+      collectRefsFromProp(prop.valueType, acc);
+      return;
     case "typeOperator":
     case "mapped":
     case "conditional":
@@ -219,6 +223,11 @@ export function annotateEntityWithRecursion(
         });
         return [{ ...(v as any), value: newProps } as any, anyLead];
       }
+      case "indexSignature": {
+        const [kt, l1] = annotatePropValue((v as any).keyType);
+        const [vt, l2] = annotatePropValue((v as any).valueType);
+        return [{ ...(v as any), keyType: kt, valueType: vt } as any, l1 || l2];
+      }
       case "typeOperator": {
         const [nv, l] = annotatePropValue((v as any).value);
         return [{ ...(v as any), value: nv } as any, l];
@@ -249,11 +258,18 @@ export function annotateEntityWithRecursion(
   }
 
   function annotateProperty(p: ASTProperty): [ASTProperty, boolean] {
-    const { name, optional, docs, location } = p as any;
+    const { name, optional, isReadonly, docs, location } = p as any;
     const { type, ...rest } = p as any;
     // Rest is the underlying shape; rebuild via annotatePropValue
     const [nv, leads] = annotatePropValue(p as any);
-    const np = { ...(nv as any), name, optional, docs, location } as any;
+    const np = {
+      ...(nv as any),
+      name,
+      optional,
+      isReadonly,
+      docs,
+      location,
+    } as any;
     if (leads) np.recursiveEdge = true;
     return [np, leads];
   }
@@ -293,3 +309,125 @@ export function annotateEntityWithRecursion(
 
   return out as ASTEntity;
 }
+
+// Generic walkers over the values of an entity; `map` functions return a new
+// value or the same one to leave it untouched
+function withValue(property: ASTProperty, value: ASTPropertyValue) {
+  const { name, optional, isReadonly, docs, recursiveEdge } = property;
+  return {
+    ...value,
+    name,
+    optional,
+    isReadonly,
+    docs,
+    recursiveEdge,
+  } as ASTProperty;
+}
+
+function mapProperty(
+  property: ASTProperty,
+  map: (value: ASTPropertyValue) => ASTPropertyValue
+) {
+  const mapped = map(property);
+  return mapped === property ? property : withValue(property, mapped);
+}
+
+// Apply `map` to the nested values of `value` (not to `value` itself)
+export function mapChildren(
+  value: ASTPropertyValue,
+  map: (value: ASTPropertyValue) => ASTPropertyValue
+): ASTPropertyValue {
+  switch (value.type) {
+    case "union":
+    case "intersection":
+    case "array":
+    case "record":
+    case "promise":
+    case "tuple":
+      return { ...value, value: value.value.map(map) };
+    case "object":
+      return {
+        ...value,
+        value: value.value.map((property) => mapProperty(property, map)),
+      };
+    case "indexSignature":
+      return {
+        ...value,
+        keyType: map(value.keyType),
+        valueType: map(value.valueType),
+      };
+    case "function":
+    case "typeOperator":
+      return { ...value, value: map(value.value) };
+    case "mapped":
+      return {
+        ...value,
+        constraint: map(value.constraint),
+        value: map(value.value),
+      };
+    case "conditional":
+      return {
+        ...value,
+        checkType: map(value.checkType),
+        extendsType: map(value.extendsType),
+        trueType: map(value.trueType),
+        falseType: map(value.falseType),
+      };
+    default:
+      return value;
+  }
+}
+
+export function forEachChild(
+  value: ASTPropertyValue,
+  visit: (value: ASTPropertyValue) => void
+) {
+  mapChildren(value, (child) => {
+    visit(child);
+    return child;
+  });
+}
+
+export function mapEntityValues(
+  entity: ASTEntity,
+  map: (value: ASTPropertyValue) => ASTPropertyValue
+): ASTEntity {
+  switch (entity.type) {
+    case "instance":
+      return {
+        ...entity,
+        properties: entity.properties.map((property) =>
+          mapProperty(property, map)
+        ),
+        inherits: entity.inherits?.map((base) => ({
+          ...base,
+          properties: base.properties?.map((property) =>
+            mapProperty(property, map)
+          ),
+        })),
+      };
+    case "union":
+      return { ...entity, values: entity.values.map(map) };
+    case "array":
+      return {
+        ...entity,
+        value: { ...entity.value, value: entity.value.value.map(map) },
+      };
+    case "primitive":
+      return entity;
+    case "constant":
+      return { ...entity, value: map(entity.value) };
+    default:
+      return entity;
+  }
+}
+
+export function forEachEntityValue(
+  entity: ASTEntity,
+  visit: (value: ASTPropertyValue) => void
+) {
+  mapEntityValues(entity, (value) => {
+    visit(value);
+    return value;
+  });
+}
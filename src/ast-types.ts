@@ -25,9 +25,18 @@ export type ASTArrayProperty = {
   value: Array<ASTPropertyValue>;
 };
 
+export type ASTTupleElement = {
+  optional?: boolean;
+  // True for rest elements (`...T[]`); the element value is the item type
+  rest?: boolean;
+};
+
 export type ASTTupleProperty = {
   type: 'tuple';
   value: Array<ASTPropertyValue>;
+  // Per-position metadata, aligned with `value`
+  elements?: Array<ASTTupleElement>;
+  readonly?: boolean;
 };
 
 export type ASTObjectProperty = {
@@ -75,6 +84,8 @@ export type ASTMappedProperty = {
   parameter: string;
   constraint: ASTPropertyValue;
   value: ASTPropertyValue;
+  // Source text of the type, for diagnostics
+  text?: string;
 };
 
 export type ASTConditionalProperty = {
@@ -83,6 +94,8 @@ export type ASTConditionalProperty = {
   extendsType: ASTPropertyValue;
   trueType: ASTPropertyValue;
   falseType: ASTPropertyValue;
+  // Source text of the type, for diagnostics
+  text?: string;
 };
 
 export type ASTEnumProperty = {
@@ -111,6 +124,8 @@ export type ASTPropertyValue =
 export type ASTProperty = ASTPropertyValue & {
   name: string;
   optional: boolean;
+  // Declared readonly, or made readonly by Readonly<T>
+  isReadonly?: boolean;
   docs?: string;
   location?: { file: string; line: number };
   // True if this property (possibly through nested values) leads back to the owning entity
@@ -143,6 +158,9 @@ export type ASTEntityInstance = {
   }>;
   isExported: boolean;
   generics?: ASTGenericParameter[];
+  // Type a utility type alias takes its properties from (User for
+  // Pick<User, 'id'>); its mapping paths apply to the alias as well
+  derivedFrom?: { name: string; location?: { file: string; line: number } };
   docs?: string;
   location?: { file: string; line: number };
   // True if this entity is part of a recursion cycle (self-recursive or in an SCC > 1)
@@ -206,10 +224,18 @@ export type ASTEntityConstant = {
   cycleGroup?: string[];
 };
 
+export type ASTEnumMember = {
+  name: string;
+  // Initializer value; undefined for computed members the checker can't evaluate
+  value?: string | number;
+};
+
 export type ASTEntityEnum = {
   name: string;
   type: 'enum';
+  // Runtime values of the members that have a constant value
   values: Array<string | number>;
+  members: Array<ASTEnumMember>;
   isExported: boolean;
   docs?: string;
   location?: { file: string; line: number };
@@ -221,6 +247,9 @@ export type ASTEntityPlaceholder = {
   name: string;
   type: 'placeholder';
   isExported: boolean;
+  // Mapped or conditional type over the alias's type parameters; such aliases
+  // get no factory and are reported
+  text?: string;
   docs?: string;
   location?: { file: string; line: number };
   hasRecursion?: boolean;
@@ -0,0 +1,7 @@
+import { runCli } from "./cli";
+
+// Entry point of the typemockr binary; the package entry (index.ts) is the
+// side-effect-free library
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
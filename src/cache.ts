@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import type { MappingProvider } from "./generator";
+import { logger } from "./logger";
+
+// Per-source-file record of the last generation run
+export type CacheEntry = {
+  // Content hash of the source file
+  hash: string;
+  // Entities declared by the file and the entity names each one references
+  edges: Record<string, string[]>;
+  // Local files the source imports, directly or transitively. Types inlined
+  // from them (Pick<User, "id">, finite-key records, mapped and conditional
+  // types) leave no edge behind, so their changes are tracked per file.
+  dependencies: string[];
+  // Files written for this source (mock and .mock.d.ts)
+  outputs: string[];
+};
+
+export type GenerationCache = {
+  version: string;
+  configHash: string;
+  files: Record<string, CacheEntry>;
+};
+
+export function hashContent(text: string) {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+let version: string | undefined;
+
+// Version of the installed typemockr package, so upgrades invalidate the cache
+export function getTypemockrVersion() {
+  if (version !== undefined) return version;
+  version = "0.0.0";
+  let dir = __dirname;
+  for (let i = 0; i < 5; i++) {
+    try {
+      const pkg = JSON.parse(
+        fs.readFileSync(path.join(dir, "package.json"), "utf-8")
+      );
+      if (pkg.name === "typemockr") {
+        version = String(pkg.version);
+        break;
+      }
+    } catch {
+      // keep walking up
+    }
+    dir = path.dirname(dir);
+  }
+  return version;
+}
+
+// Hash of everything besides the sources that shapes the generated output,
+// including the contents of the mapping provider module (or the source of an
+// inline provider function).
+export function hashConfig(
+  options: object,
+  mappingProvider?: string | MappingProvider
+) {
+  const hash = createHash("sha1").update(JSON.stringify(options));
+  if (typeof mappingProvider === "function") {
+    hash.update(mappingProvider.toString());
+  } else if (mappingProvider) {
+    try {
+      hash.update(fs.readFileSync(path.resolve(mappingProvider)));
+    } catch {
+      // a missing provider is reported by the generator
+    }
+  }
+  return hash.digest("hex");
+}
+
+// One cache file per output directory, so targets don't evict each other
+export function getCachePath(projectRootDir: string, outputRootDir: string) {
+  const key = hashContent(
+    path.relative(projectRootDir, outputRootDir).replace(/\\/g, "/")
+  ).slice(0, 8);
+  return path.join(
+    projectRootDir,
+    "node_modules",
+    ".cache",
+    "typemockr",
+    `cache-${key}.json`
+  );
+}
+
+// Load the cache for this config; a different version or config starts empty
+export function loadCache(
+  projectRootDir: string,
+  outputRootDir: string,
+  configHash: string
+): GenerationCache {
+  const empty = { version: getTypemockrVersion(), configHash, files: {} };
+  try {
+    const cache = JSON.parse(
+      fs.readFileSync(getCachePath(projectRootDir, outputRootDir), "utf-8")
+    ) as GenerationCache;
+    if (
+      cache.version !== empty.version ||
+      cache.configHash !== configHash ||
+      typeof cache.files !== "object" ||
+      // written before dependencies were recorded
+      Object.values(cache.files).some(
+        (entry) => !Array.isArray(entry.dependencies)
+      )
+    )
+      return empty;
+    return cache;
+  } catch {
+    return empty;
+  }
+}
+
+export function saveCache(
+  projectRootDir: string,
+  outputRootDir: string,
+  cache: GenerationCache
+) {
+  const cachePath = getCachePath(projectRootDir, outputRootDir);
+  try {
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    fs.writeFileSync(cachePath, JSON.stringify(cache), "utf-8");
+  } catch (err) {
+    // the cache is an optimisation; generation already succeeded
+    logger.warn("Failed to write typemockr cache:", err);
+  }
+}
@@ -29,15 +29,23 @@ export function defineCategories(categories: Record<string, Array<string>>) {
 export function defineGeneratorMatchers(
   mapping: Record<string, Array<string>>
 ) {
-  const matchers: Array<[RegExp, string]> = [];
+  const matchers: Array<[RegExp, string, string]> = [];
 
   for (const [generator, patterns] of Object.entries(mapping)) {
     patterns.forEach((pattern) => {
-      matchers.push([generateRegexp(pattern), generator]);
+      matchers.push([generateRegexp(pattern), generator, pattern]);
     });
   }
 
-  return function inferGenerator(path: string): string | undefined {
-    return matchers.filter(([re]) => re.test(path)).at(0)?.[1];
-  };
+  return Object.assign(
+    function inferGenerator(path: string): string | undefined {
+      return matchers.filter(([re]) => re.test(path)).at(0)?.[1];
+    },
+    {
+      // The pattern that selects the generator for `path`, for diagnostics
+      matchingPattern(path: string): string | undefined {
+        return matchers.find(([re]) => re.test(path))?.[2];
+      },
+    }
+  );
 }
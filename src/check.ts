@@ -0,0 +1,210 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  createTargetsProject,
+  generateForProject,
+  type GenerateMocksOptions,
+} from "./typemockr";
+import { getOwnedFiles, loadManifest } from "./manifest";
+import { logger } from "./logger";
+
+const MOCK_FILE_RE = /\.mock\.(ts|js|d\.ts)$/;
+
+export type CheckResult = {
+  // Outputs whose content on disk differs, with a unified diff each
+  stale: Array<{ file: string; diff: string }>;
+  // Outputs that would be generated but don't exist on disk
+  missing: string[];
+  // Mock files in the output root that no source generates anymore
+  orphaned: string[];
+};
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+// Line diff based on the longest common subsequence of the differing middle part
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  )
+    start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    before[endBefore - 1] === after[endAfter - 1]
+  ) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const ops: DiffOp[] = before
+    .slice(0, start)
+    .map((line) => ({ kind: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ kind: " ", line: a[i++]! });
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)
+    ) {
+      ops.push({ kind: "-", line: a[i++]! });
+    } else {
+      ops.push({ kind: "+", line: b[j++]! });
+    }
+  }
+  for (const line of before.slice(endBefore)) ops.push({ kind: " ", line });
+  return ops;
+}
+
+export function unifiedDiff(
+  file: string,
+  before: string,
+  after: string,
+  context = 3
+) {
+  const ops = diffLines(before.split("\n"), after.split("\n"));
+  const output = [`--- a/${file}`, `+++ b/${file}`];
+  let index = 0;
+  while (index < ops.length) {
+    // Find the next change and open a hunk `context` lines before it
+    while (index < ops.length && ops[index]!.kind === " ") index++;
+    if (index === ops.length) break;
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    // Extend while changes are closer than 2 * context lines apart
+    let lastChange = index;
+    while (hunkEnd < ops.length) {
+      if (ops[hunkEnd]!.kind !== " ") lastChange = hunkEnd;
+      else if (hunkEnd - lastChange > context * 2) break;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    // Line numbers of the hunk start in the old and new file (1-based)
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < hunkStart; k++) {
+      if (ops[k]!.kind !== "+") oldLine++;
+      if (ops[k]!.kind !== "-") newLine++;
+    }
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    output.push(
+      `@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${
+        newCount ? newLine : newLine - 1
+      },${newCount} @@`
+    );
+    for (const op of hunk) output.push(`${op.kind}${op.line}`);
+    index = hunkEnd;
+  }
+  return output.join("\n");
+}
+
+function listMockFiles(dir: string): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries.flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listMockFiles(fullPath);
+    return MOCK_FILE_RE.test(entry.name) ? [fullPath] : [];
+  });
+}
+
+// Run the whole pipeline in memory and compare each would-be output with the
+// file on disk. Nothing is written.
+export function checkMocks(options: GenerateMocksOptions): CheckResult {
+  return checkTargets([options]);
+}
+
+// Check several targets sharing one Project; the results are combined
+export function checkTargets(targets: GenerateMocksOptions[]): CheckResult {
+  const { project, files } = createTargetsProject(targets);
+  const result: CheckResult = { stale: [], missing: [], orphaned: [] };
+  targets.forEach((options, index) => {
+    const { outputs } = generateForProject(
+      project,
+      { ...options, dryRun: true },
+      undefined,
+      files[index]
+    );
+    compareOutputs(options, outputs, result);
+  });
+  return result;
+}
+
+function compareOutputs(
+  options: GenerateMocksOptions,
+  outputs: Map<string, string>,
+  result: CheckResult
+) {
+  for (const [file, content] of outputs) {
+    let current: string;
+    try {
+      current = fs.readFileSync(file, "utf-8");
+    } catch {
+      result.missing.push(file);
+      continue;
+    }
+    if (current === content) continue;
+    const relative = path
+      .relative(options.projectRootDir, file)
+      .replace(/\\/g, "/");
+    result.stale.push({ file, diff: unifiedDiff(relative, current, content) });
+  }
+
+  // Prefer the manifest of generated files; older output roots are scanned
+  const manifest = loadManifest(options.outputRootDir);
+  const candidates = manifest
+    ? getOwnedFiles(manifest, options.outputRootDir).filter((file) =>
+        fs.existsSync(file)
+      )
+    : listMockFiles(options.outputRootDir);
+  for (const file of candidates) {
+    if (!outputs.has(file)) result.orphaned.push(file);
+  }
+}
+
+// Print a check result; returns true when the mocks on disk are up to date
+export function reportCheck(projectRootDir: string, result: CheckResult) {
+  const relative = (file: string) => path.relative(projectRootDir, file);
+  for (const { diff } of result.stale) console.log(diff + "\n");
+  for (const file of result.missing) console.log(`missing: ${relative(file)}`);
+  for (const file of result.orphaned)
+    console.log(`orphaned: ${relative(file)}`);
+
+  const problems =
+    result.stale.length + result.missing.length + result.orphaned.length;
+  if (!problems) {
+    logger.info("[typemockr] mocks are up to date");
+    return true;
+  }
+  console.log(
+    `[typemockr] ${result.stale.length} stale, ${result.missing.length} missing, ${result.orphaned.length} orphaned mock file(s). Run typemockr to regenerate.`
+  );
+  return false;
+}
@@ -0,0 +1,526 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Project, SourceFile } from "ts-morph";
+import type { ASTEntity, ASTProperty } from "./ast-types";
+import {
+  ConfigError,
+  findConfigFile,
+  loadConfig,
+  resolveTargets,
+} from "./config";
+import { getTypemockrVersion } from "./cache";
+import { checkTargets, reportCheck } from "./check";
+import { explainGenerator } from "./generator";
+import { proposeConfig, proposeMappings, renderConfig } from "./init";
+import { logger, setLogLevel } from "./logger";
+import { createEntityNaming } from "./naming";
+import { buildTypeToSourceFileMap, parseEntitiesForFile } from "./parser";
+import {
+  createTargetsProject,
+  generateForProject,
+  getOutputPathsForSourceFile,
+  type GenerateMocksOptions,
+} from "./typemockr";
+import { watchMocks } from "./watch";
+
+export const EXIT_OK = 0;
+// Generation, parse or write failure, or stale mocks for `check`
+export const EXIT_FAILURE = 1;
+// Unknown command or flag, missing or invalid arguments or config
+export const EXIT_USAGE = 2;
+
+const COMMANDS = ["generate", "check", "init", "list", "explain"] as const;
+type Command = (typeof COMMANDS)[number];
+
+const HELP = `Usage: typemockr [command] [options]
+
+Commands:
+  generate           Generate mock factories (default)
+  check              Exit with code 1 if generated mocks are out of date
+  init               Create a typemockr.json from the project's tsconfig
+  list               List the types found and the files their mocks go to
+  explain <target>   Show how a type (Order) or property (Order.customer.email) is mocked
+
+Options:
+  --config <path>    Path to the config file (default: typemockr.config.ts,
+                     .mjs, .cjs, .js, typemockr.json, then package.json)
+  --out-dir <dir>    Output directory, overrides outDir
+  --include <glob>   Source glob, overrides include (repeatable or comma separated)
+  --format <ts|js>   Output format, overrides format
+  --target <name>    Only run the named config target (repeatable or comma separated)
+  --check            Same as the check command
+  --watch            Regenerate on source changes (generate)
+  --prune            Delete generated mocks whose source is gone (generate)
+  --no-cache         Ignore the generation cache (generate)
+  --force            Overwrite an existing config (init)
+  --with-mappings    Seed mappings from the property names found (init)
+  --verbose          Print per-file details
+  --quiet            Only print errors
+  -h, --help         Show this help
+  -v, --version      Show the typemockr version
+`;
+
+class UsageError extends Error {}
+
+type CliArgs = {
+  command: Command;
+  positionals: string[];
+  config?: string;
+  outDir?: string;
+  include: string[];
+  format?: "ts" | "js";
+  targets: string[];
+  watch: boolean;
+  prune: boolean;
+  cache: boolean;
+  force: boolean;
+  withMappings: boolean;
+  verbose: boolean;
+  quiet: boolean;
+  help: boolean;
+  version: boolean;
+};
+
+function splitList(value: string) {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: "generate",
+    positionals: [],
+    include: [],
+    targets: [],
+    watch: false,
+    prune: false,
+    cache: true,
+    force: false,
+    withMappings: false,
+    verbose: false,
+    quiet: false,
+    help: false,
+    version: false,
+  };
+  let commandSeen = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (!arg.startsWith("-")) {
+      if (!commandSeen && COMMANDS.includes(arg as Command)) {
+        args.command = arg as Command;
+        commandSeen = true;
+      } else if (!commandSeen && !args.positionals.length) {
+        throw new UsageError(`Unknown command: ${arg}`);
+      } else {
+        args.positionals.push(arg);
+      }
+      continue;
+    }
+    // Accept both `--flag value` and `--flag=value`
+    const [flag, inline] = arg.split(/=(.*)/s, 2) as [string, string?];
+    const value = () => {
+      const next = inline ?? argv[++i];
+      if (next === undefined || (inline === undefined && next.startsWith("-")))
+        throw new UsageError(`Missing value for ${flag}`);
+      return next;
+    };
+    switch (flag) {
+      case "--config":
+        args.config = value();
+        break;
+      case "--out-dir":
+        args.outDir = value();
+        break;
+      case "--include":
+        args.include.push(...splitList(value()));
+        break;
+      case "--target":
+        args.targets.push(...splitList(value()));
+        break;
+      case "--format": {
+        const format = value();
+        if (format !== "ts" && format !== "js")
+          throw new UsageError(
+            `--format must be "ts" or "js", got "${format}"`
+          );
+        args.format = format;
+        break;
+      }
+      // Kept from before subcommands: `--check` is the `check` command
+      case "--check":
+        if (commandSeen && args.command !== "check")
+          throw new UsageError(
+            `--check cannot be combined with ${args.command}`
+          );
+        args.command = "check";
+        commandSeen = true;
+        break;
+      case "--watch":
+        args.watch = true;
+        break;
+      case "--prune":
+        args.prune = true;
+        break;
+      case "--no-cache":
+        args.cache = false;
+        break;
+      case "--force":
+        args.force = true;
+        break;
+      case "--with-mappings":
+        args.withMappings = true;
+        break;
+      case "--verbose":
+        args.verbose = true;
+        break;
+      case "--quiet":
+        args.quiet = true;
+        break;
+      case "-h":
+      case "--help":
+        args.help = true;
+        break;
+      case "-v":
+      case "--version":
+        args.version = true;
+        break;
+      default:
+        throw new UsageError(`Unknown option: ${flag}`);
+    }
+  }
+  if (args.verbose && args.quiet)
+    throw new UsageError("--verbose and --quiet cannot be combined");
+  return args;
+}
+
+// Resolve the config (file plus command-line overrides) into generator options,
+// one per target. Relative paths in the config are relative to its directory,
+// which becomes the working directory for the run.
+async function resolveOptions(args: CliArgs): Promise<GenerateMocksOptions[]> {
+  const configPath = args.config ? path.resolve(args.config) : undefined;
+  if (configPath && !fs.existsSync(configPath))
+    throw new UsageError(`Config file not found: ${args.config}`);
+  const projectRootDir = configPath ? path.dirname(configPath) : process.cwd();
+  process.chdir(projectRootDir);
+  const cfg = await loadConfig(projectRootDir, configPath);
+  return resolveTargets(cfg, {
+    targets: args.targets,
+    include: args.include.length ? args.include : undefined,
+    outDir: args.outDir,
+    format: args.format,
+    cache: args.cache ? undefined : false,
+    prune: args.prune || undefined,
+  });
+}
+
+function relative(options: GenerateMocksOptions, file: string) {
+  return path.relative(options.projectRootDir, file);
+}
+
+function runGenerate(targets: GenerateMocksOptions[], args: CliArgs) {
+  if (args.watch) {
+    // Watchers keep the process alive until it is interrupted or they fail
+    return new Promise<number>((resolve) => {
+      watchMocks(targets, {
+        onError: (err) => {
+          logger.error("[typemockr] watching failed:", err);
+          resolve(EXIT_FAILURE);
+        },
+      });
+    });
+  }
+  let started = Date.now();
+  const { project, files } = createTargetsProject(targets);
+  targets.forEach((options, index) => {
+    // The first target's time includes parsing the shared project
+    if (index) started = Date.now();
+    const result = generateForProject(
+      project,
+      options,
+      undefined,
+      files[index]
+    );
+    for (const file of result.written)
+      logger.debug(`  wrote ${relative(options, file)}`);
+    logger.info(
+      `[typemockr] ${options.name ? `${options.name}: ` : ""}${result.written.length} mock file(s) written, ${result.unchanged.length} unchanged, ${result.skipped.length} source file(s) skipped in ${Date.now() - started}ms`
+    );
+  });
+  return EXIT_OK;
+}
+
+function runInit(args: CliArgs) {
+  const configPath = path.resolve(args.config ?? "typemockr.json");
+  // Without --config, any config typemockr would discover counts as existing
+  const existing = args.config ? configPath : findConfigFile();
+  if (existing && fs.existsSync(existing) && !args.force) {
+    logger.error(
+      existing === configPath
+        ? `${path.relative(process.cwd(), configPath)} already exists (use --force to overwrite)`
+        : `${path.relative(process.cwd(), existing)} already configures typemockr (use --force to write ${path.relative(process.cwd(), configPath)} anyway)`
+    );
+    return EXIT_FAILURE;
+  }
+  const projectRootDir = path.dirname(configPath);
+  process.chdir(projectRootDir);
+  const proposed = proposeConfig(projectRootDir, args.outDir);
+  const include = args.include.length ? args.include : proposed.include!;
+  const config = {
+    $schema: "./node_modules/typemockr/typemockr.schema.json",
+    ...proposed,
+    include,
+    ...(args.format ? { format: args.format } : {}),
+    ...(args.withMappings
+      ? { mappings: proposeMappings(projectRootDir, include) }
+      : {}),
+  };
+  fs.writeFileSync(configPath, renderConfig(config), "utf-8");
+  logger.info(`Created ${path.relative(process.cwd(), configPath)}`);
+  return EXIT_OK;
+}
+
+// Entities per source file of a target, under the names they are generated
+// with, and the mock file each one is generated into
+function collectEntities(
+  project: Project,
+  options: GenerateMocksOptions,
+  sourceFiles: SourceFile[]
+) {
+  const typeToFileMap = buildTypeToSourceFileMap(project, sourceFiles);
+  const naming = createEntityNaming(
+    sourceFiles,
+    options.projectRootDir,
+    options.typeNames
+  );
+  const files: Array<{
+    sourceFile: SourceFile;
+    mockPath: string;
+    entities: ASTEntity[];
+  }> = [];
+  for (const sourceFile of sourceFiles) {
+    const entities = parseEntitiesForFile(sourceFile, typeToFileMap).map(
+      (entity) => naming.rename(entity, sourceFile.getFilePath())
+    );
+    if (!entities.length) continue;
+    const { mockPath } = getOutputPathsForSourceFile({
+      projectRootDir: options.projectRootDir,
+      outputRootDir: options.outputRootDir,
+      sourceFile,
+      baseDir: options.baseDir ?? [],
+      format: options.format,
+    });
+    files.push({ sourceFile, mockPath, entities });
+  }
+  return files;
+}
+
+function runList(targets: GenerateMocksOptions[]) {
+  const { project, files } = createTargetsProject(targets);
+  targets.forEach((options, index) => {
+    if (targets.length > 1)
+      console.log(`[${options.name ?? `targets[${index}]`}]`);
+    for (const { sourceFile, mockPath, entities } of collectEntities(
+      project,
+      options,
+      files[index]!
+    )) {
+      console.log(
+        `${relative(options, sourceFile.getFilePath())} -> ${relative(options, mockPath)}`
+      );
+      for (const entity of entities)
+        console.log(`  Mock${entity.name} (${entity.type})`);
+    }
+  });
+  return EXIT_OK;
+}
+
+// The factory declaration for `name` in a generated mock file
+function extractFactory(code: string, name: string) {
+  const lines = code.split("\n");
+  const start = lines.findIndex((line) =>
+    new RegExp(`^(export )?function Mock${name}[<(]`).test(line)
+  );
+  if (start === -1) return undefined;
+  const end = lines.findIndex((line, index) => index > start && line === "}");
+  return lines.slice(start, end === -1 ? undefined : end + 1).join("\n");
+}
+
+function describeProperty(prop: ASTProperty) {
+  switch (prop.type) {
+    case "reference":
+      return `a reference to ${prop.value.replace(/^.*\./, "")}, generated by its own factory`;
+    case "primitive":
+    case "constant":
+      return `${prop.type} ${JSON.stringify(prop.value)}`;
+    default:
+      return `a ${prop.type} value`;
+  }
+}
+
+function runExplain(targets: GenerateMocksOptions[], args: CliArgs) {
+  const target = args.positionals[0];
+  if (!target)
+    throw new UsageError(
+      "explain needs a type or property path, e.g. Order.customer"
+    );
+  const [entityName, ...propPath] = target.split(".");
+
+  // The first target that includes the type explains it
+  const { project, files: targetFiles } = createTargetsProject(targets);
+  const byName = new Map<string, { entity: ASTEntity; mockPath: string }>();
+  const index = targets.findIndex((options, index) => {
+    byName.clear();
+    for (const { mockPath, entities } of collectEntities(
+      project,
+      options,
+      targetFiles[index]!
+    )) {
+      for (const entity of entities)
+        byName.set(entity.name, { entity, mockPath });
+    }
+    return byName.has(entityName!);
+  });
+  const found = byName.get(entityName!);
+  if (!found) {
+    // Types declared in several files (or listed in typeNames) go by their
+    // generated names
+    const candidates = targets.flatMap((options, index) =>
+      Array.from(
+        createEntityNaming(
+          targetFiles[index]!,
+          options.projectRootDir,
+          options.typeNames
+        ).declaredNames
+      )
+        .filter(([, declared]) => declared === entityName)
+        .map(([unique]) => unique)
+    );
+    logger.error(
+      candidates.length
+        ? `No type named ${entityName}: it is generated as ${Array.from(new Set(candidates)).join(" or ")}`
+        : `No type named ${entityName} in the included files`
+    );
+    return EXIT_FAILURE;
+  }
+  const options = targets[index]!;
+  // A dry run loads the mappings and provider and yields the generated code
+  const { outputs } = generateForProject(
+    project,
+    { ...options, dryRun: true },
+    undefined,
+    targetFiles[index]
+  );
+
+  if (!propPath.length) {
+    const { entity, mockPath } = found;
+    console.log(`${entity.name} (${entity.type})`);
+    if (entity.location)
+      console.log(
+        `  declared in ${relative(options, entity.location.file)}:${entity.location.line}`
+      );
+    console.log(`  generated in ${relative(options, mockPath)}`);
+    const factory = extractFactory(outputs.get(mockPath) ?? "", entity.name);
+    if (factory) console.log(`\n${factory}`);
+    return EXIT_OK;
+  }
+
+  // Walk the property path; references continue in the referenced type, whose
+  // factory generates values under its own name (Customer.email, not Order.customer.email)
+  let mappingPath = entityName!;
+  let mappingEntity = found.entity;
+  let properties =
+    found.entity.type === "instance" ? found.entity.properties : undefined;
+  let prop: ASTProperty | undefined;
+  for (const segment of propPath) {
+    prop = properties?.find((p) => p.name === segment);
+    if (!prop) {
+      logger.error(`${mappingPath} has no property ${segment}`);
+      return EXIT_FAILURE;
+    }
+    mappingPath += `.${segment}`;
+    properties = undefined;
+    if (prop.type === "object") {
+      properties = prop.value;
+    } else if (prop.type === "reference") {
+      const refName = prop.value.replace(/^.*\./, "");
+      const ref = byName.get(refName)?.entity;
+      if (ref?.type === "instance") {
+        properties = ref.properties;
+        mappingPath = refName;
+        mappingEntity = ref;
+      }
+    }
+  }
+  console.log(`${target}: ${describeProperty(prop!)}`);
+  if (prop!.type === "primitive") {
+    const { generator, origin, pattern } = explainGenerator(
+      prop!.value,
+      mappingPath,
+      {
+        entityName: mappingEntity.name,
+        derivedFrom:
+          mappingEntity.type === "instance"
+            ? mappingEntity.derivedFrom?.name
+            : undefined,
+      }
+    );
+    console.log(`  mapping path: ${mappingPath}`);
+    console.log(`  generator:    ${generator}`);
+    console.log(
+      `  source:       ${
+        origin === "mappings"
+          ? `mappings pattern "${pattern}"`
+          : origin === "mappingProvider"
+            ? "mappingProvider"
+            : `built-in default for ${prop!.value}`
+      }`
+    );
+  }
+  return EXIT_OK;
+}
+
+// Entry point of the typemockr binary; resolves to the process exit code
+export async function runCli(argv: string[]): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (err) {
+    logger.error(`${(err as Error).message}\n\n${HELP}`);
+    return EXIT_USAGE;
+  }
+  setLogLevel(args.quiet ? "quiet" : args.verbose ? "verbose" : "normal");
+  if (args.help) {
+    console.log(HELP);
+    return EXIT_OK;
+  }
+  if (args.version) {
+    console.log(getTypemockrVersion());
+    return EXIT_OK;
+  }
+
+  try {
+    if (args.command === "init") return runInit(args);
+    const targets = await resolveOptions(args);
+    switch (args.command) {
+      case "generate":
+        return await runGenerate(targets, args);
+      case "check":
+        return reportCheck(targets[0]!.projectRootDir, checkTargets(targets))
+          ? EXIT_OK
+          : EXIT_FAILURE;
+      case "list":
+        return runList(targets);
+      case "explain":
+        return runExplain(targets, args);
+    }
+  } catch (err) {
+    if (err instanceof UsageError || err instanceof ConfigError) {
+      logger.error(err.message);
+      return EXIT_USAGE;
+    }
+    logger.error("[typemockr] failed:", err);
+    return EXIT_FAILURE;
+  }
+}
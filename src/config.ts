@@ -1,20 +1,220 @@
-import { join } from "node:path";
-import { access, readFile } from "node:fs/promises";
-import { constants as fsConstants } from "node:fs";
-import type { RawConfig, Config } from "./types";
+import { basename, extname, join, relative, resolve } from "node:path";
+import { existsSync, readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { pathToFileURL } from "node:url";
+import { ts } from "ts-morph";
+import type { RawConfig, RawTarget, Config, TargetConfig } from "./types";
+import { validateConfig } from "./schema";
+import type { GenerateMocksOptions } from "./typemockr";
+import { logger } from "./logger";
+
+// Invalid JSON, a config module that fails to load, a config that doesn't
+// match the schema, or targets that can't be resolved
+export class ConfigError extends Error {}
+
+// Config files in order of precedence; the first one found in the project root
+// wins. package.json only counts when it has a "typemockr" key.
+export const CONFIG_FILES = [
+  "typemockr.config.ts",
+  "typemockr.config.mjs",
+  "typemockr.config.cjs",
+  "typemockr.config.js",
+  "typemockr.json",
+  "package.json",
+];
+
+// A config object, or a (possibly async) function returning one
+export type ConfigExport = RawConfig | (() => RawConfig | Promise<RawConfig>);
+
+// Identity helper that gives typemockr.config.ts files type checking:
+// `export default defineConfig({ include: ["src/**/*.ts"] })`
+export function defineConfig<T extends ConfigExport>(config: T): T {
+  return config;
+}
+
+function hasPackageConfig(packagePath: string) {
+  try {
+    return "typemockr" in JSON.parse(readFileSync(packagePath, "utf8"));
+  } catch {
+    return false;
+  }
+}
+
+export function findConfigFile(projectRootDir = process.cwd()) {
+  const found = CONFIG_FILES.map((file) => join(projectRootDir, file)).filter(
+    (file) =>
+      basename(file) === "package.json"
+        ? hasPackageConfig(file)
+        : existsSync(file)
+  );
+  if (found.length > 1) {
+    logger.warn(
+      `Using ${basename(found[0]!)}; ignoring ${found
+        .slice(1)
+        .map((file) => basename(file))
+        .join(", ")}`
+    );
+  }
+  return found[0];
+}
+
+// Kept out of reach of the CommonJS transform, which would turn import() into require()
+const importModule = new Function("specifier", "return import(specifier)") as (
+  specifier: string
+) => Promise<Record<string, unknown>>;
+
+// Require a TypeScript module (and the .ts files it imports), transpiled to CommonJS
+function requireTs(file: string) {
+  const require = createRequire(file);
+  const previous = require.extensions[".ts"];
+  require.extensions[".ts"] = (module, filename) => {
+    const { outputText } = ts.transpileModule(readFileSync(filename, "utf8"), {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2022,
+        esModuleInterop: true,
+      },
+    });
+    (
+      module as NodeJS.Module & {
+        _compile(code: string, filename: string): void;
+      }
+    )._compile(outputText, filename);
+  };
+  try {
+    delete require.cache[file];
+    return require(file);
+  } finally {
+    if (previous) require.extensions[".ts"] = previous;
+    else delete require.extensions[".ts"];
+  }
+}
+
+async function loadModule(file: string): Promise<Record<string, unknown>> {
+  const extension = extname(file);
+  if (extension === ".ts") return requireTs(file);
+  if (extension === ".mjs") return importModule(pathToFileURL(file).href);
+  const require = createRequire(file);
+  try {
+    delete require.cache[file];
+    return require(file);
+  } catch (err) {
+    // .js files of "type": "module" packages are ES modules
+    if ((err as NodeJS.ErrnoException).code !== "ERR_REQUIRE_ESM") throw err;
+    return importModule(pathToFileURL(file).href);
+  }
+}
+
+// JSON with comments, as written by `typemockr init`
+function parseJsonConfig(configPath: string, displayPath: string, txt: string) {
+  const { config, error } = ts.parseConfigFileTextToJson(configPath, txt);
+  // TS5092: the root value must be an object
+  if (error?.code === 5092)
+    throw new ConfigError(`${displayPath}: the config must be a JSON object`);
+  if (error) {
+    const message = ts.flattenDiagnosticMessageText(error.messageText, "\n");
+    const position =
+      error.file && error.start !== undefined
+        ? error.file.getLineAndCharacterOfPosition(error.start)
+        : undefined;
+    throw new ConfigError(
+      `${displayPath}${
+        position ? `:${position.line + 1}:${position.character + 1}` : ""
+      }: invalid JSON: ${message}`
+    );
+  }
+  return config as unknown;
+}
+
+// Read the raw config from a JSON file, package.json or a config module.
+// Returns undefined when the file doesn't exist.
+async function readRawConfig(
+  configPath: string,
+  displayPath: string
+): Promise<unknown> {
+  let txt: string;
+  try {
+    txt = await readFile(configPath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    return undefined;
+  }
+
+  if (basename(configPath) === "package.json") {
+    const pkg = parseJsonConfig(configPath, displayPath, txt) as Record<
+      string,
+      unknown
+    >;
+    if (!("typemockr" in pkg))
+      throw new ConfigError(`${displayPath} has no "typemockr" key`);
+    return pkg.typemockr;
+  }
+  if (extname(configPath) === ".json")
+    return parseJsonConfig(configPath, displayPath, txt);
+
+  let exported: unknown;
+  try {
+    const mod = await loadModule(configPath);
+    exported = "default" in mod ? mod.default : mod;
+    if (typeof exported === "function") exported = await exported();
+  } catch (err) {
+    throw new ConfigError(
+      `${displayPath}: failed to load config: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+  if (
+    typeof exported !== "object" ||
+    exported === null ||
+    Array.isArray(exported)
+  )
+    throw new ConfigError(
+      `${displayPath} must export a config object or a function returning one`
+    );
+  return exported;
+}
+
+// Inline provider functions are only possible in config modules and are not
+// part of the JSON schema; they validate as the provider's name
+function withProviderNames(config: RawConfig): RawConfig {
+  if (typeof config !== "object" || config === null) return config;
+  const named = (target: RawTarget) =>
+    typeof target?.mappingProvider === "function"
+      ? { ...target, mappingProvider: target.mappingProvider.name || "inline" }
+      : target;
+  return {
+    ...named(config),
+    ...(Array.isArray(config.targets)
+      ? { targets: config.targets.map(named) }
+      : {}),
+  };
+}
 
 export async function loadConfig(
-  projectRootDir = process.cwd()
+  projectRootDir = process.cwd(),
+  configPath = findConfigFile(projectRootDir)
 ): Promise<Config> {
-  const configPath = join(projectRootDir, "typemockr.json");
   let raw: RawConfig | undefined = undefined;
-  try {
-    await access(configPath, fsConstants.F_OK);
-    const txt = await readFile(configPath, "utf8");
-    raw = JSON.parse(txt) as RawConfig;
-  } catch (err) {
-    // missing or invalid config falls back to defaults
-    raw = undefined;
+  const displayPath =
+    configPath && (relative(process.cwd(), configPath) || configPath);
+  const config = configPath && (await readRawConfig(configPath, displayPath!));
+
+  if (config !== undefined) {
+    const { errors, warnings } = validateConfig(
+      withProviderNames(config as RawConfig)
+    );
+    for (const warning of warnings) logger.warn(`${displayPath}: ${warning}`);
+    if (errors.length) {
+      throw new ConfigError(
+        `${displayPath} is invalid:\n${errors
+          .map((message) => `  - ${message}`)
+          .join("\n")}`
+      );
+    }
+    raw = config as RawConfig;
   }
 
   const include = raw?.include ?? [];
@@ -23,6 +223,26 @@ export async function loadConfig(
   const mappingProvider = raw?.mappingProvider;
   const outDir = raw?.outDir;
   const format = raw?.format;
+  const recordEntries = raw?.recordEntries;
+  const functionStubs = raw?.functionStubs;
+  const promiseMode = raw?.promiseMode;
+  const promiseDelay = raw?.promiseDelay;
+  const seed = raw?.seed === false ? undefined : raw?.seed;
+  const arrayMerge = raw?.arrayMerge;
+  const builders = raw?.builders;
+  const traits = raw?.traits;
+  const externalTypes = raw?.externalTypes;
+  const typeNames = raw?.typeNames;
+  const cache = raw?.cache;
+  const prune = raw?.prune;
+  const workspaces = raw?.workspaces;
+  // `seed: false` in a target turns off a top-level seed, so it is kept as an
+  // explicit undefined that overrides the inherited value
+  const targets = raw?.targets?.map((target): TargetConfig =>
+    "seed" in target
+      ? { ...target, seed: target.seed === false ? undefined : target.seed }
+      : (target as TargetConfig)
+  );
 
   const cfg: Config = {
     projectRootDir,
@@ -32,6 +252,115 @@ export async function loadConfig(
     format,
     mappings,
     mappingProvider,
+    recordEntries,
+    functionStubs,
+    promiseMode,
+    promiseDelay,
+    seed,
+    arrayMerge,
+    builders,
+    traits,
+    externalTypes,
+    typeNames,
+    cache,
+    prune,
+    workspaces,
+    targets,
   };
   return cfg;
 }
+
+// Overrides applied on top of every selected target (the CLI flags)
+export type TargetOverrides = {
+  // Names of the targets to resolve; all of them when empty
+  targets?: string[];
+  include?: string[];
+  outDir?: string;
+  format?: "ts" | "js";
+  cache?: boolean;
+  prune?: boolean;
+};
+
+// Generator options for each target of a loaded config (the top-level settings
+// when it has no targets). Targets inherit the top-level settings and relative
+// paths are resolved against the project root.
+export function resolveTargets(
+  cfg: Config,
+  overrides: TargetOverrides = {}
+): GenerateMocksOptions[] {
+  const { projectRootDir } = cfg;
+  const requested = overrides.targets ?? [];
+  // Without `targets` the top-level settings form the only target
+  const targets: TargetConfig[] = cfg.targets?.length ? cfg.targets : [{}];
+  const names = targets.flatMap((target) => target.name ?? []);
+  for (const name of requested) {
+    if (!names.includes(name))
+      throw new ConfigError(
+        `Unknown target "${name}"${
+          names.length
+            ? ` (targets: ${names.join(", ")})`
+            : "; the config has no named targets"
+        }`
+      );
+  }
+  const selected = requested.length
+    ? targets.filter((target) => requested.includes(target.name!))
+    : targets;
+  if (selected.length > 1 && (overrides.include || overrides.outDir))
+    throw new ConfigError(
+      "Overriding include or outDir needs a single target; select one with --target"
+    );
+
+  const resolved = selected.map((target): GenerateMocksOptions => {
+    const merged = { ...cfg, ...target };
+    const label = target.name
+      ? `target "${target.name}"`
+      : cfg.targets?.length
+        ? `targets[${targets.indexOf(target)}]`
+        : undefined;
+    const include = overrides.include ?? merged.include ?? [];
+    if (!include.length) {
+      throw new ConfigError(
+        label
+          ? `Nothing to generate for ${label}: no include globs. Add \`include\` to the target or the top level.`
+          : "Nothing to generate: no include globs. Add `include` to the config or pass --include."
+      );
+    }
+    const outDir = overrides.outDir ?? merged.outDir;
+    return {
+      name: target.name,
+      projectRootDir,
+      include,
+      outputRootDir: outDir
+        ? resolve(projectRootDir, outDir)
+        : join(projectRootDir, "src", "$mock"),
+      baseDir: merged.baseDir,
+      mappings: merged.mappings,
+      mappingProvider: merged.mappingProvider,
+      format: overrides.format ?? merged.format,
+      recordEntries: merged.recordEntries,
+      functionStubs: merged.functionStubs,
+      promiseMode: merged.promiseMode,
+      promiseDelay: merged.promiseDelay,
+      seed: merged.seed,
+      arrayMerge: merged.arrayMerge,
+      builders: merged.builders,
+      traits: merged.traits,
+      externalTypes: merged.externalTypes,
+      typeNames: merged.typeNames,
+      cache: overrides.cache ?? cfg.cache,
+      prune: overrides.prune ?? cfg.prune,
+      workspaces: cfg.workspaces,
+    };
+  });
+  // Targets sharing a directory would overwrite each other's files and manifest
+  const outputRoots = resolved.map((options) => options.outputRootDir);
+  const shared = outputRoots.find(
+    (root, index) => outputRoots.indexOf(root) !== index
+  );
+  if (shared)
+    throw new ConfigError(
+      `Several targets write to ${relative(projectRootDir, shared) || "."}; give each target its own outDir`
+    );
+  return resolved;
+}
@@ -0,0 +1,166 @@
+import * as path from "path";
+import type { ASTEntity, ASTProperty, ASTPropertyValue } from "./ast-types";
+import {
+  forEachChild,
+  forEachEntityValue,
+  mapChildren,
+  mapEntityValues,
+} from "./analyzer";
+
+// How types declared in a node_modules package are mocked:
+// - "generate": a mock is generated per referenced type into `$external/<package>`
+// - "inline": references are replaced by the structure of the type
+// - { factories }: Mock<Type> factories are imported from a module of the project
+export type ExternalTypeStrategy =
+  "generate" | "inline" | { factories: string };
+
+// Strategy per package name; "*" applies to the packages not listed
+export type ExternalTypes = Record<string, ExternalTypeStrategy>;
+
+// Package declaring `filePath`, by the name it is imported with (types of
+// `@types/node` come from "node", `@types/babel__core` from "@babel/core"), or
+// undefined for files outside node_modules
+export function getExternalPackage(filePath: string) {
+  const normalized = filePath.replace(/\\/g, "/");
+  const index = normalized.lastIndexOf("/node_modules/");
+  if (index < 0) return undefined;
+  const segments = normalized.slice(index + "/node_modules/".length).split("/");
+  const name = segments[0]!.startsWith("@")
+    ? segments.slice(0, 2).join("/")
+    : segments[0]!;
+  if (!name.startsWith("@types/")) return name;
+  const typed = name.slice("@types/".length);
+  return typed.includes("__") ? `@${typed.replace("__", "/")}` : typed;
+}
+
+export function getExternalStrategy(
+  externalTypes: ExternalTypes | undefined,
+  packageName: string
+): ExternalTypeStrategy {
+  return externalTypes?.[packageName] ?? externalTypes?.["*"] ?? "generate";
+}
+
+// One mock file per external type, so only the referenced types are generated
+export function getExternalMockPath(
+  outputRootDir: string,
+  packageName: string,
+  typeName: string,
+  format: "ts" | "js" = "ts"
+) {
+  return path.join(
+    outputRootDir,
+    "$external",
+    packageName,
+    `${typeName}.mock.${format}`
+  );
+}
+
+function toRelativeSpecifier(fromDir: string, file: string) {
+  let specifier = path.relative(fromDir, file).replace(/\\/g, "/");
+  if (!specifier.startsWith(".")) specifier = `./${specifier}`;
+  return specifier;
+}
+
+// Module specifier to import the types declared in `file` from a file in
+// `fromDir`: the package name for node_modules declarations, a relative path
+// without extension otherwise
+export function getTypeImportSpecifier(fromDir: string, file: string) {
+  return (
+    getExternalPackage(file) ??
+    toRelativeSpecifier(fromDir, file).replace(/\.(d\.)?(ts|tsx|js|jsx)$/, "")
+  );
+}
+
+// Specifier of a user factories module (a path relative to the project root,
+// or a package name) for a mock file in `fromDir`
+export function getFactoriesSpecifier(
+  fromDir: string,
+  projectRootDir: string,
+  factories: string,
+  format: "ts" | "js" = "ts"
+) {
+  if (!factories.startsWith(".") && !path.isAbsolute(factories))
+    return factories;
+  const specifier = toRelativeSpecifier(
+    fromDir,
+    path.resolve(projectRootDir, factories)
+  ).replace(/\.(ts|js)$/, "");
+  return format === "js" ? `${specifier}.js` : specifier;
+}
+
+// External references (type name and declaration file) made by an entity
+export function collectExternalReferences(entity: ASTEntity) {
+  const references: Array<{ name: string; file: string }> = [];
+  const visit = (value: ASTPropertyValue) => {
+    if (value.type === "reference") {
+      const file = value.location?.file;
+      if (file && getExternalPackage(file))
+        references.push({ name: value.value, file });
+      return;
+    }
+    forEachChild(value, visit);
+  };
+  forEachEntityValue(entity, visit);
+  return references;
+}
+
+// Replace references to types of packages using the "inline" strategy by the
+// structure of the referenced type. `lookup` returns the entity declared with
+// that name in a declaration file; recursive types are cut at the first repeat.
+export function inlineExternalReferences(
+  entity: ASTEntity,
+  externalTypes: ExternalTypes | undefined,
+  lookup: (name: string, file: string) => ASTEntity | undefined,
+  onMissing: (name: string, packageName: string) => void
+): ASTEntity {
+  const inlining = new Set<string>();
+  const inline = (value: ASTPropertyValue): ASTPropertyValue => {
+    if (value.type !== "reference") return mapChildren(value, inline);
+    const packageName =
+      value.location && getExternalPackage(value.location.file);
+    if (
+      !packageName ||
+      getExternalStrategy(externalTypes, packageName) !== "inline"
+    )
+      return value;
+    const key = `${value.location!.file}#${value.value}`;
+    if (inlining.has(key)) return { type: "primitive", value: "unknown" };
+    const target = lookup(value.value, value.location!.file);
+    const structure = target && entityToValue(target);
+    if (!structure) {
+      onMissing(value.value, packageName);
+      return { type: "primitive", value: "unknown" };
+    }
+    inlining.add(key);
+    const inlined = inline(structure);
+    inlining.delete(key);
+    return inlined;
+  };
+  return mapEntityValues(entity, inline);
+}
+
+// The structure of an entity as an anonymous value
+function entityToValue(entity: ASTEntity): ASTPropertyValue | undefined {
+  switch (entity.type) {
+    case "instance": {
+      const properties = new Map<string, ASTProperty>();
+      for (const base of entity.inherits || [])
+        for (const prop of base.properties || [])
+          properties.set(prop.name, prop);
+      for (const prop of entity.properties) properties.set(prop.name, prop);
+      return { type: "object", value: Array.from(properties.values()) };
+    }
+    case "union":
+      return { type: "union", value: entity.values };
+    case "array":
+      return entity.value;
+    case "primitive":
+      return entity.value;
+    case "constant":
+      return entity.value;
+    case "enum":
+      return { type: "enum", values: entity.values };
+    default:
+      return undefined;
+  }
+}
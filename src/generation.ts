@@ -5,24 +5,75 @@ import type {
   ASTArrayProperty,
   ASTConstantProperty,
   ASTEntity,
+  ASTEntityAlias,
+  ASTEntityInstance,
   ASTFunctionProperty,
+  ASTIndexSignatureProperty,
   ASTIntersectionProperty,
   ASTObjectProperty,
   ASTPrimitiveProperty,
+  ASTPromiseProperty,
   ASTProperty,
   ASTPropertyValue,
   ASTRecordProperty,
   ASTReferenceProperty,
+  ASTTupleProperty,
   ASTUnionProperty,
+  ASTMappedProperty,
+  ASTConditionalProperty,
 } from "./ast-types";
 import { getOutputPathsForSourceFile } from "./typemockr";
 import {
   setMappings,
   setMappingProvider,
   getFakerGenerator,
+  getMappedGenerator,
   inferMapping,
   type GenerationContext,
+  type MappingProvider,
 } from "./generator";
+import { logger } from "./logger";
+import {
+  getExternalMockPath,
+  getExternalPackage,
+  getExternalStrategy,
+  getFactoriesSpecifier,
+  getTypeImportSpecifier,
+  type ExternalTypes,
+} from "./external";
+import { builderMethodName, builderName, traitName } from "./naming";
+
+// Type of the value at `path` for assertions: Entity.a.b -> Entity["a"]["b"].
+// Values returned by function stubs and resolved by promises are typed with
+// ReturnType/Awaited of the property type. Undefined for the entity itself.
+// Generic entities are typed with the factory's type parameters: Store<T>["a"].
+function pathType(path: string, context?: GenerationContext) {
+  const [entity, ...keys] = path.split(".");
+  if (!entity) return undefined;
+  const generics =
+    entity === context?.entityName
+      ? Array.from(context.genericParamSet ?? [])
+      : [];
+  let type = generics.length ? `${entity}<${generics.join(", ")}>` : entity;
+  const base = type;
+  let current = entity;
+  const wrap = () => {
+    for (const { path: unwrapPath, unwrap } of context?.unwrapPaths ?? []) {
+      if (unwrapPath !== current) continue;
+      type =
+        unwrap === "ReturnType"
+          ? `ReturnType<NonNullable<${type}>>`
+          : `Awaited<NonNullable<${type}>>`;
+    }
+  };
+  wrap();
+  for (const key of keys) {
+    type += `["${key}"]`;
+    current += `.${key}`;
+    wrap();
+  }
+  return type === base ? undefined : type;
+}
 
 function generatePrimitive(
   prop: ASTPrimitiveProperty,
@@ -49,11 +100,8 @@ function generateConstantValue(
 
   // Only add type assertion if this is part of a union/enum
   if (includeTypes && isUnionOrEnum) {
-    const [entity, ...propPath] = path.split(".");
-    if (entity && propPath.length) {
-      const accessKeys = propPath.map((key) => `["${key}"]`).join("");
-      return `${value} as ${entity}${accessKeys}`;
-    }
+    const type = pathType(path);
+    if (type) return `${value} as ${type}`;
   }
 
   // For single constant properties, add 'as const' to preserve literal type
@@ -70,7 +118,7 @@ function generateArrayValue(
   // Allow mapping provider to override arrays. If the provider returns a value,
   // use it directly (optionally casting to a typed array when `includeTypes`).
   try {
-    const mapped = getFakerGenerator("array", path, context);
+    const mapped = getMappedGenerator("array", path, context);
     if (mapped !== undefined && mapped !== null) {
       if (includeTypes) {
         const [elem] = prop.value;
@@ -112,11 +160,7 @@ function generateArrayValue(
     if (typeName === "__type") {
       // Return a typed empty array so it's mutable and matches the property type
       if (includeTypes) {
-        const [entity, ...propPath] = path.split(".");
-        const accessKeys = propPath.length
-          ? `["${propPath.join('"]["')}"]`
-          : "";
-        return `[] as ${entity}${accessKeys}`;
+        return `[] as ${pathType(path, context) ?? path.split(".")[0]}`;
       }
       return "[]";
     }
@@ -151,24 +195,113 @@ function generateArrayValue(
   return `faker.helpers.multiple(() => ${wrapped})`;
 }
 
+function generateTupleValue(
+  prop: ASTTupleProperty,
+  path: string,
+  includeTypes: boolean,
+  context?: GenerationContext
+) {
+  // Each position gets its own path (Entity.coords.0) so mappings can target single slots
+  const items = prop.value.map((item, index) => {
+    const element = prop.elements?.[index];
+    const itemPath = `${path}.${index}`;
+    if (element?.rest) {
+      // Variadic elements (`...T`) carry the array type itself, rest elements the item type
+      if (item.type === "array") {
+        return `...${generateArrayValue(item, itemPath, includeTypes, context)}`;
+      }
+      const value = generateValue(item, itemPath, includeTypes, context);
+      const wrapped = value.trim().startsWith("{") ? `(${value})` : value;
+      return `...faker.helpers.multiple(() => ${wrapped})`;
+    }
+    const value = generateValue(item, itemPath, includeTypes, context);
+    if (element?.optional) {
+      const wrapped = value.trim().startsWith("{") ? `(${value})` : value;
+      return `faker.helpers.maybe(() => ${wrapped})`;
+    }
+    return value;
+  });
+  const literal = `[${items.join(", ")}]`;
+
+  // Array literals widen to T[], assert back to the tuple type
+  const type = includeTypes && pathType(path, context);
+  if (type) return `${literal} as ${type}`;
+  return literal;
+}
+
+function generateKeyedValue(
+  keyType: ASTPropertyValue | undefined,
+  valueType: ASTPropertyValue | undefined,
+  path: string,
+  includeTypes: boolean,
+  context?: GenerationContext
+) {
+  let literal: string;
+  const finiteKeys =
+    keyType?.type === "constant"
+      ? [keyType]
+      : keyType?.type === "union" &&
+          keyType.value.every((v) => v.type === "constant")
+        ? (keyType.value as ASTConstantProperty[])
+        : undefined;
+  if (finiteKeys) {
+    // Literal-union and enum keys are emitted exhaustively, one path per key
+    const entries = finiteKeys.map(({ value: key }) => {
+      const value = valueType
+        ? generateValue(valueType, `${path}.${key}`, includeTypes, context)
+        : "undefined";
+      return `"${key}": ${value}`;
+    });
+    literal = `{ ${entries.join(", ")} }`;
+  } else {
+    const key =
+      keyType?.type === "primitive" &&
+      (keyType.value === "string" || keyType.value === "number")
+        ? generatePrimitive(keyType, `${path}.key`, includeTypes, context)
+        : getFakerGenerator("string", `${path}.key`, context);
+    const value = valueType
+      ? generateValue(valueType, `${path}.value`, includeTypes, context)
+      : "undefined";
+    const entries = context?.recordEntries ?? { min: 1, max: 3 };
+    const count =
+      typeof entries === "number"
+        ? `${entries}`
+        : `{ min: ${entries.min}, max: ${entries.max} }`;
+    const entry = includeTypes
+      ? `[${key}, ${value}] as const`
+      : `[${key}, ${value}]`;
+    literal = `Object.fromEntries(faker.helpers.multiple(() => ${entry}, { count: ${count} }))`;
+  }
+
+  const type = includeTypes && pathType(path, context);
+  if (type) return `${literal} as ${type}`;
+  return literal;
+}
+
 function generateRecordValue(
   prop: ASTRecordProperty,
   path: string,
-  includeTypes: boolean
+  includeTypes: boolean,
+  context?: GenerationContext
 ) {
-  // Log that we encountered a record type
-  console.warn(
-    `Encountered Record type at path: ${path}, returning empty object {}`
-  );
+  // Record<K, V> is parsed as [K, V]
+  const [keyType, valueType] = prop.value;
+  return generateKeyedValue(keyType, valueType, path, includeTypes, context);
+}
 
-  if (includeTypes) {
-    const [entity, ...propPath] = path.split(".");
-    if (entity && propPath.length) {
-      const accessKeys = propPath.map((key) => `["${key}"]`).join("");
-      return `{} as ${entity}${accessKeys}`;
-    }
-  }
-  return "{}";
+function generateIndexSignatureValue(
+  prop: ASTIndexSignatureProperty,
+  path: string,
+  includeTypes: boolean,
+  context?: GenerationContext
+) {
+  return generateKeyedValue(
+    prop.keyType,
+    prop.valueType,
+    path,
+    includeTypes,
+    context
+  );
 }
 
 function generateReferenceValue(
@@ -242,12 +375,11 @@ function generateUnionValue(
     return `"${(prop.value[0] as any).value}"`;
   }
   if (allStringLiterals && includeTypes) {
-    const [entity, ...propPath] = path.split(".");
-    const accessKeys = propPath.length ? `[\"${propPath.join(']["')}\"]` : "";
+    const type = pathType(path, context) ?? path.split(".")[0];
     const values = prop.value
       .map((val) => {
         const v = (val as any).value;
-        return `"${v}" as ${entity}${accessKeys}`;
+        return `"${v}" as ${type}`;
       })
       .join(", ");
     return `faker.helpers.arrayElement([${values}])`;
@@ -282,6 +414,11 @@ function generateIntersectionValue(
         }
       }
 
+      if (item.type === "record" || item.type === "indexSignature") {
+        // spread generated entries (Object.fromEntries(...) or asserted literals)
+        return `...${value}`;
+      }
+
       return value;
     })
     .join(", ");
@@ -319,11 +456,130 @@ function generateObjectValue(
   return `{ ${properties} }`;
 }
 
-function generateFunctionValue(_prop: ASTFunctionProperty) {
-  // Log that we encountered a function type and will omit it
-  console.warn("Encountered function type in AST, omitting from mock output.");
-  // Return undefined to signal omission
-  return undefined as any;
+function generateFunctionValue(
+  prop: ASTFunctionProperty,
+  path: string,
+  includeTypes: boolean,
+  context?: GenerationContext
+) {
+  // Functions returning a promise become async stubs resolving to the payload,
+  // unless a rejected/delayed promise mode is configured
+  let returnType = prop.value;
+  let isAsync = false;
+  if (returnType.type === "promise" && !context?.promiseMode) {
+    isAsync = true;
+    returnType = returnType.value[0] ?? {
+      type: "primitive",
+      value: "undefined",
+    };
+  }
+  // The return value is generated lazily on each call, which also keeps
+  // recursive return types from expanding eagerly. It keeps the property's
+  // path for mappings, its type assertions use the function's ReturnType.
+  const unwrapPaths = [
+    ...(context?.unwrapPaths ?? []),
+    { path, unwrap: "ReturnType" as const },
+  ];
+  if (isAsync) unwrapPaths.push({ path, unwrap: "Awaited" });
+  const value = generateValue(returnType, path, includeTypes, {
+    ...context,
+    unwrapPaths,
+  });
+  const wrapped = value.trim().startsWith("{") ? `(${value})` : value;
+  const stub = `${isAsync ? "async " : ""}() => ${wrapped}`;
+  switch (context?.functionStubs) {
+    case "vi":
+      return `vi.fn(${stub})`;
+    case "jest":
+      return `jest.fn(${stub})`;
+    default:
+      return stub;
+  }
+}
+
+function generatePromiseValue(
+  prop: ASTPromiseProperty,
+  path: string,
+  includeTypes: boolean,
+  context?: GenerationContext
+) {
+  // Rejections don't need the payload, skip generating it to avoid unused mock imports
+  if (context?.promiseMode === "reject") {
+    return `rejectedPromise("Mocked rejection at ${path}")`;
+  }
+  // The payload keeps the property's path for mappings, its type assertions
+  // use the Awaited property type
+  const [payloadType] = prop.value;
+  const value = payloadType
+    ? generateValue(payloadType, path, includeTypes, {
+        ...context,
+        unwrapPaths: [
+          ...(context?.unwrapPaths ?? []),
+          { path, unwrap: "Awaited" },
+        ],
+      })
+    : "undefined";
+  if (context?.promiseMode === "delay") {
+    return `delayedPromise(${value}, ${context.promiseDelay ?? 10})`;
+  }
+  return `Promise.resolve(${value})`;
+}
+
+// Helpers emitted once per file when promise modes reference them
+function generatePromiseHelpers(body: string, includeTypes: boolean) {
+  const output: string[] = [];
+  if (/\brejectedPromise\(/.test(body)) {
+    output.push(
+      includeTypes
+        ? `function rejectedPromise(message: string): Promise<never> {`
+        : `function rejectedPromise(message) {`
+    );
+    output.push(`  const promise = Promise.reject(new Error(message));`);
+    output.push(
+      `  // Mocks are often never awaited, don't report the rejection as unhandled`
+    );
+    output.push(`  promise.catch(() => {});`);
+    output.push(`  return promise;`);
+    output.push(`}`);
+    output.push("");
+  }
+  if (/\bdelayedPromise\(/.test(body)) {
+    output.push(
+      includeTypes
+        ? `function delayedPromise<T>(value: T, ms: number): Promise<T> {`
+        : `function delayedPromise(value, ms) {`
+    );
+    output.push(
+      `  return new Promise((resolve) => setTimeout(() => resolve(value), ms));`
+    );
+    output.push(`}`);
+    output.push("");
+  }
+  return output.join("\n");
+}
+
+// Mapped and conditional types the checker couldn't resolve because they
+// depend on type parameters. Mappings still apply; otherwise a conditional type
+// is mocked as one of its branches and a mapped type as an empty object, and
+// the type is reported.
+function generateUnresolvedValue(
+  prop: ASTMappedProperty | ASTConditionalProperty,
+  path: string,
+  includeTypes: boolean,
+  context?: GenerationContext
+) {
+  const mapped = getMappedGenerator(prop.type, path, context);
+  if (mapped !== undefined) return mapped;
+  context?.unresolved?.push({ path, text: prop.text ?? prop.type });
+  const value =
+    prop.type === "conditional"
+      ? `faker.helpers.arrayElement([${[prop.trueType, prop.falseType]
+          .map((branch) => generateValue(branch, path, includeTypes, context))
+          .join(", ")}])`
+      : "{}";
+  return includeTypes
+    ? `${value} as unknown as ${pathType(path, context)}`
+    : value;
 }
 
 function generateValue(
@@ -344,18 +600,24 @@ function generateValue(
     case "intersection":
       return generateIntersectionValue(prop, path, includeTypes, context);
     case "record":
-      return generateRecordValue(prop, path, includeTypes);
+      return generateRecordValue(prop, path, includeTypes, context);
+    case "indexSignature":
+      return generateIndexSignatureValue(prop, path, includeTypes, context);
     case "array":
       return generateArrayValue(prop, path, includeTypes, context);
+    case "tuple":
+      return generateTupleValue(prop, path, includeTypes, context);
     case "object":
       return generateObjectValue(prop, path, includeTypes, context);
-    case "function": {
-      // Omit function properties from the mock output
-      generateFunctionValue(prop); // still logs
-      return undefined as any;
-    }
+    case "function":
+      return generateFunctionValue(prop, path, includeTypes, context);
+    case "promise":
+      return generatePromiseValue(prop, path, includeTypes, context);
+    case "mapped":
+    case "conditional":
+      return generateUnresolvedValue(prop, path, includeTypes, context);
     default:
-      console.warn(
+      logger.warn(
         `Encountered unknown AST property type: ${prop.type} at path: ${path}`
       );
       return `"/* TODO ${prop.type} */"`;
@@ -372,19 +634,465 @@ function generateProperty(
   let value = generateValue(prop, `${path}.${name}`, includeTypes, context);
   // If we produced a bare {} for a typed property, assert it to the property's type path for stronger typing
   if (includeTypes && typeof value === "string" && value.trim() === "{}") {
-    const fullPath = `${path}.${name}`;
-    const [entity, ...propPathParts] = fullPath.split(".");
-    if (entity && propPathParts.length) {
-      const accessKeys = propPathParts.map((k) => `["${k}"]`).join("");
-      value = `{} as ${entity}${accessKeys}`;
-    }
+    const type = pathType(`${path}.${name}`, context);
+    if (type) value = `{} as ${type}`;
   }
   if (prop.optional) {
     const wrapped = value.trim().startsWith("{") ? `(${value})` : value;
-    // return `"${name}": faker.helpers.maybe(() => ${wrapped}, { probability: 0.8 })`;
-    return `"${name}": faker.helpers.maybe(() => ${wrapped})`;
+    // value = `faker.helpers.maybe(() => ${wrapped}, { probability: 0.8 })`;
+    value = `faker.helpers.maybe(() => ${wrapped})`;
+  }
+  return `"${name}": ${seedByPath(value, `${path}.${name}`, context)}`;
+}
+
+// With seeding, each property value reseeds faker from its path, so adding or
+// removing a property doesn't shift the values generated for its siblings
+function seedByPath(value: string, path: string, context?: GenerationContext) {
+  if (!context?.seeded) return value;
+  const wrapped = value.trim().startsWith("{") ? `(${value})` : value;
+  return `seeded("${path}", () => ${wrapped})`;
+}
+
+// Deep-merge runtime emitted when factories merge overrides. Plain-object
+// overrides are merged into objects and class instances (keeping their
+// prototype), anything else replaces the generated value.
+function generateMergeHelpers(
+  body: string,
+  includeTypes: boolean,
+  arrayMerge: "replace" | "index"
+) {
+  if (!/\bmergeDeep\(/.test(body)) return "";
+  const output: string[] = [];
+  if (includeTypes) {
+    // Arrays are replaced as a whole by default, so they take full elements
+    const arrayType =
+      arrayMerge === "index"
+        ? `T extends Array<infer U> ? Array<DeepPartial<U>>`
+        : `T extends Array<any> ? T`;
+    output.push(
+      `type DeepPartial<T> = T extends Date | RegExp | Map<any, any> | Set<any> | Promise<any> | ((...args: any[]) => any)`,
+      `  ? T`,
+      `  : ${arrayType}`,
+      `  : T extends object`,
+      `  ? { [K in keyof T]?: DeepPartial<T[K]> }`,
+      `  : T;`,
+      ``,
+      `function isPlainObject(value: unknown): value is Record<string, unknown> {`
+    );
+  } else {
+    output.push(`function isPlainObject(value) {`);
+  }
+  output.push(
+    `  if (value === null || typeof value !== "object") return false;`,
+    `  const proto = Object.getPrototypeOf(value);`,
+    `  return proto === Object.prototype || proto === null;`,
+    `}`,
+    ``,
+    includeTypes
+      ? `function mergeDeep<T>(target: T, overrides: unknown): T {`
+      : `function mergeDeep(target, overrides) {`
+  );
+  if (arrayMerge === "index") {
+    output.push(
+      `  if (Array.isArray(overrides) && Array.isArray(target)) {`,
+      `    const merged${includeTypes ? ": any[]" : ""} = target.slice();`,
+      `    // forEach skips holes, so [, { id: 2 }] only touches the second item`,
+      `    overrides.forEach((value, index) => {`,
+      `      merged[index] = mergeDeep(merged[index], value);`,
+      `    });`,
+      `    return merged${includeTypes ? " as T" : ""};`,
+      `  }`
+    );
+  }
+  output.push(
+    `  const mergeable =`,
+    `    target !== null &&`,
+    `    typeof target === "object" &&`,
+    `    Object.prototype.toString.call(target) === "[object Object]";`,
+    `  if (!mergeable || !isPlainObject(overrides)) {`,
+    `    return (overrides === undefined ? target : overrides)${
+      includeTypes ? " as T" : ""
+    };`,
+    `  }`,
+    `  const merged = Object.assign(Object.create(Object.getPrototypeOf(target)), target);`,
+    `  for (const [key, value] of Object.entries(overrides)) {`,
+    `    // An explicit undefined clears the generated value`,
+    `    merged[key] = value === undefined ? undefined : mergeDeep(merged[key], value);`,
+    `  }`,
+    `  return merged;`,
+    `}`,
+    ``
+  );
+  return output.join("\n");
+}
+
+// Companion MockXList(count, overrides) factory. Overrides may be a function of
+// the item index to build sequences (ids 1..n, alternating statuses).
+function generateListFactory(
+  item: ASTEntity,
+  includeTypes: boolean,
+  useExport: boolean
+) {
+  const exportKeyword = useExport ? `export ` : "";
+  // Only instance factories declare generic parameters
+  const generics: Array<{ name: string }> =
+    item.type === "instance" ? item.generics || [] : [];
+  const genericParams =
+    generics.length && includeTypes
+      ? `<${generics.map((g) => `${g.name} = any`).join(", ")}>`
+      : "";
+  const genericTypes =
+    generics.length && includeTypes
+      ? `<${generics.map((g) => g.name).join(", ")}>`
+      : "";
+  const typeName = `${item.name}${genericTypes}`;
+  const resultType = includeTypes ? `: ${typeName}[]` : "";
+  const countParam = includeTypes ? `count: number` : `count`;
+
+  // Same overrides type as the item factory; enums, constants and primitives take none
+  let overridesType: string | undefined;
+  switch (item.type) {
+    case "instance":
+    case "alias":
+      overridesType = `DeepPartial<${typeName}>`;
+      break;
+    case "union":
+      overridesType = `Partial<${typeName}>`;
+      break;
+    case "array":
+      overridesType = typeName;
+      break;
+    case "placeholder":
+      overridesType = "any";
+      break;
+  }
+
+  const output: string[] = [];
+  if (overridesType === undefined) {
+    output.push(
+      `${exportKeyword}function Mock${item.name}List(${countParam})${resultType} {`
+    );
+    output.push(
+      `  return Array.from({ length: count }, () => Mock${item.name}());`
+    );
+  } else {
+    const overridesParam = includeTypes
+      ? `overrides?: ${overridesType} | ((index: number) => ${overridesType})`
+      : `overrides`;
+    // Generic mock callbacks are left undefined so their defaults apply
+    const args = [
+      ...generics.map(() => "undefined"),
+      `typeof overrides === "function" ? overrides(index) : overrides`,
+    ];
+    output.push(
+      `${exportKeyword}function Mock${item.name}List${genericParams}(${countParam}, ${overridesParam})${resultType} {`
+    );
+    output.push(`  return Array.from({ length: count }, (_, index) =>`);
+    output.push(`    Mock${item.name}${genericTypes}(${args.join(", ")})`);
+    output.push(`  );`);
+  }
+  output.push(`}`);
+  output.push("");
+  return output.join("\n");
+}
+
+// Fluent builder over the MockX factory: withX() collects overrides, without()
+// drops optional props and build() delegates to MockX so mappings, merging and
+// recursion guards behave exactly like a direct factory call.
+function generateBuilder(
+  item: ASTEntityInstance,
+  includeTypes: boolean,
+  useExport: boolean
+) {
+  const exportKeyword = useExport ? `export ` : "";
+  const generics = item.generics || [];
+  const genericParams =
+    generics.length && includeTypes
+      ? `<${generics.map((g) => `${g.name} = any`).join(", ")}>`
+      : "";
+  const genericTypes =
+    generics.length && includeTypes
+      ? `<${generics.map((g) => g.name).join(", ")}>`
+      : "";
+  const genericNames = new Set(generics.map((g) => g.name));
+  const typeName = `${item.name}${genericTypes}`;
+  const className = builderName(item.name);
+
+  // Own properties win over inherited ones with the same name
+  const properties = new Map<string, ASTProperty>();
+  for (const base of item.inherits || []) {
+    for (const prop of base.properties || []) properties.set(prop.name, prop);
+  }
+  for (const prop of item.properties) properties.set(prop.name, prop);
+
+  const output: string[] = [];
+  output.push(`${exportKeyword}class ${className}${genericParams} {`);
+  output.push(
+    includeTypes
+      ? `  private overrides: Record<string, any> = {};`
+      : `  overrides = {};`
+  );
+  output.push(
+    includeTypes
+      ? `  private omitted = new Set<string>();`
+      : `  omitted = new Set();`
+  );
+
+  const usedMethods = new Set<string>();
+  for (const prop of Array.from(properties.values())) {
+    const method = builderMethodName(prop.name);
+    if (!method || usedMethods.has(method)) continue;
+    usedMethods.add(method);
+
+    const key = JSON.stringify(prop.name);
+    const propType = `${typeName}[${key}]`;
+    // Arrays of other entities also accept a count: withLines(3)
+    const element = prop.type === "array" ? prop.value[0] : undefined;
+    const itemValue =
+      element?.type === "reference" &&
+      !genericNames.has(element.value.replace(/^.*\./, ""))
+        ? generateReferenceValue(element)
+        : undefined;
+    const param = includeTypes
+      ? `value: ${propType}${itemValue ? " | number" : ""}`
+      : `value`;
+    output.push("");
+    output.push(`  ${method}(${param})${includeTypes ? ": this" : ""} {`);
+    if (itemValue) {
+      output.push(`    this.overrides[${key}] =`);
+      output.push(`      typeof value === "number"`);
+      output.push(
+        `        ? Array.from({ length: value }, () => ${itemValue})`
+      );
+      output.push(`        : value;`);
+    } else {
+      output.push(`    this.overrides[${key}] = value;`);
+    }
+    output.push(`    this.omitted.delete(${key});`);
+    output.push(`    return this;`);
+    output.push(`  }`);
+  }
+
+  const optionalKeys = Array.from(properties.values())
+    .filter((prop) => prop.optional)
+    .map((prop) => JSON.stringify(prop.name));
+  if (optionalKeys.length) {
+    output.push("");
+    output.push(
+      `  without(key${includeTypes ? `: ${optionalKeys.join(" | ")}` : ""})${
+        includeTypes ? ": this" : ""
+      } {`
+    );
+    output.push(`    delete this.overrides[key];`);
+    output.push(`    this.omitted.add(key);`);
+    output.push(`    return this;`);
+    output.push(`  }`);
+  }
+
+  const mockArgs = [
+    ...generics.map(() => "undefined"),
+    includeTypes
+      ? `this.overrides as DeepPartial<${typeName}>`
+      : `this.overrides`,
+  ];
+  output.push("");
+  output.push(`  build()${includeTypes ? `: ${typeName}` : ""} {`);
+  output.push(
+    `    const result = Mock${item.name}${genericTypes}(${mockArgs.join(", ")});`
+  );
+  output.push(
+    `    for (const key of this.omitted) delete (result${
+      includeTypes ? " as Record<string, any>" : ""
+    })[key];`
+  );
+  output.push(`    return result;`);
+  output.push(`  }`);
+  output.push(`}`);
+  output.push("");
+  output.push(
+    `${exportKeyword}function build${item.name}${genericParams}()${
+      includeTypes ? `: ${className}${genericTypes}` : ""
+    } {`
+  );
+  output.push(`  return new ${className}${genericTypes}();`);
+  output.push(`}`);
+  output.push("");
+  return output.join("\n");
+}
+
+// Config-declared traits: a typed XTraits table, MockX.trait(name | names,
+// overrides?) applying them in order over the factory, and a MockXTraitName()
+// shortcut per trait.
+function generateTraits(
+  item: ASTEntityInstance | ASTEntityAlias,
+  traits: Record<string, Record<string, unknown>>,
+  emittedNames: Set<string>,
+  includeTypes: boolean,
+  useExport: boolean
+) {
+  const exportKeyword = useExport ? `export ` : "";
+  // Generic instances are mocked with their default (any) arguments
+  const generics = item.type === "instance" ? item.generics || [] : [];
+  const typeName = generics.length
+    ? `${item.name}<${generics.map(() => "any").join(", ")}>`
+    : item.name;
+  const partialType = `DeepPartial<${typeName}>`;
+  const tableName = `${item.name}Traits`;
+  const traitType = `${item.name}Trait`;
+  const names = Object.keys(traits);
+
+  // The table is a function so each call gets its own trait values: mergeDeep
+  // hands over override arrays and objects as they are, and a mock mutated by
+  // a test must not change the next one
+  const output: string[] = [];
+  if (includeTypes) {
+    output.push(`const ${tableName} = (): {`);
+    for (const name of names) {
+      output.push(`  ${JSON.stringify(name)}: ${partialType};`);
+    }
+    output.push(`} => ({`);
+  } else {
+    output.push(`const ${tableName} = () => ({`);
+  }
+  for (const name of names) {
+    const value = JSON.stringify(traits[name] ?? {}, null, 2).replace(
+      /\n/g,
+      "\n  "
+    );
+    output.push(`  ${JSON.stringify(name)}: ${value},`);
+  }
+  output.push(`});`);
+  if (includeTypes) {
+    output.push(
+      `${exportKeyword}type ${traitType} = keyof ReturnType<typeof ${tableName}>;`
+    );
+  }
+  output.push("");
+
+  const mockArgs = [
+    ...generics.map(() => "undefined"),
+    "mergeDeep(merged, overrides)",
+  ];
+  output.push(
+    includeTypes
+      ? `Mock${item.name}.trait = function (trait: ${traitType} | ${traitType}[], overrides: ${partialType} = {}): ${typeName} {`
+      : `Mock${item.name}.trait = function (trait, overrides = {}) {`
+  );
+  output.push(`  const names = Array.isArray(trait) ? trait : [trait];`);
+  output.push(`  const table = ${tableName}();`);
+  output.push(
+    `  const merged = names.reduce${
+      includeTypes ? `<${partialType}>` : ""
+    }((acc, name) => mergeDeep(acc, table[name]), {});`
+  );
+  output.push(`  return Mock${item.name}(${mockArgs.join(", ")});`);
+  output.push(`};`);
+  output.push("");
+
+  for (const name of names) {
+    const helperName = traitName(item.name, name);
+    // Skip shortcuts that would shadow another entity's factory
+    if (!helperName || emittedNames.has(helperName)) continue;
+    output.push(
+      includeTypes
+        ? `${exportKeyword}function Mock${helperName}(overrides: ${partialType} = {}): ${typeName} {`
+        : `${exportKeyword}function Mock${helperName}(overrides = {}) {`
+    );
+    output.push(
+      `  return Mock${item.name}.trait(${JSON.stringify(name)}, overrides);`
+    );
+    output.push(`}`);
+    output.push("");
   }
-  return `"${name}": ${value}`;
+  return output.join("\n");
+}
+
+// Seeding runtime emitted into every file when `seed` is configured. The state
+// lives on globalThis so mocks imported from other files share the same seed.
+// Each seeded() call reseeds faker from (seed, parent path, path, occurrence),
+// so a value only depends on where it sits in the type graph.
+function generateSeedHelpers(
+  includeTypes: boolean,
+  useExport: boolean,
+  defaultSeed?: number
+) {
+  const exportKeyword = useExport ? `export ` : "";
+  const seedArg = defaultSeed === undefined ? "" : `${defaultSeed}`;
+  const lines = includeTypes
+    ? [
+        `type SeedFrame = { key: string; counts: Map<string, number> };`,
+        `type SeedState = { seed?: number; frames: SeedFrame[] };`,
+        ``,
+        `function createSeedState(seed?: number): SeedState {`,
+        `  if (seed !== undefined) faker.seed(seed);`,
+        `  return { seed, frames: [{ key: "", counts: new Map() }] };`,
+        `}`,
+        ``,
+        `// Typed view of the global the seed state is shared through`,
+        `const seedHolder: typeof globalThis & { __typemockrSeed?: SeedState } =`,
+        `  globalThis;`,
+        `const seedState =`,
+        `  seedHolder.__typemockrSeed ??`,
+        `  (seedHolder.__typemockrSeed = createSeedState(${seedArg}));`,
+        ``,
+        `function hashSeed(seed: number, key: string): number {`,
+      ]
+    : [
+        `function createSeedState(seed) {`,
+        `  if (seed !== undefined) faker.seed(seed);`,
+        `  return { seed, frames: [{ key: "", counts: new Map() }] };`,
+        `}`,
+        ``,
+        `const seedState =`,
+        `  globalThis.__typemockrSeed ??`,
+        `  (globalThis.__typemockrSeed = createSeedState(${seedArg}));`,
+        ``,
+        `function hashSeed(seed, key) {`,
+      ];
+  lines.push(
+    `  let hash = (2166136261 ^ seed) >>> 0;`,
+    `  for (let i = 0; i < key.length; i++) {`,
+    `    hash ^= key.charCodeAt(i);`,
+    `    hash = Math.imul(hash, 16777619);`,
+    `  }`,
+    `  return hash >>> 0;`,
+    `}`,
+    ``,
+    includeTypes
+      ? `function seeded<T>(path: string, generate: () => T): T {`
+      : `function seeded(path, generate) {`,
+    `  const frame = seedState.frames[seedState.frames.length - 1];`,
+    `  if (seedState.seed === undefined || !frame) return generate();`,
+    `  // Count occurrences so repeated paths (array items, sibling mocks) stay distinct`,
+    `  const count = frame.counts.get(path) ?? 0;`,
+    `  frame.counts.set(path, count + 1);`,
+    `  const key = \`\${frame.key}/\${path}#\${count}\`;`,
+    `  faker.seed(hashSeed(seedState.seed, key));`,
+    `  seedState.frames.push({ key, counts: new Map() });`,
+    `  try {`,
+    `    return generate();`,
+    `  } finally {`,
+    `    seedState.frames.pop();`,
+    `  }`,
+    `}`,
+    ``,
+    includeTypes
+      ? `${exportKeyword}function withSeed<T>(seed: number, generate: () => T): T {`
+      : `${exportKeyword}function withSeed(seed, generate) {`,
+    `  const previous = { seed: seedState.seed, frames: seedState.frames };`,
+    `  seedState.seed = seed;`,
+    `  seedState.frames = [{ key: "", counts: new Map() }];`,
+    `  faker.seed(hashSeed(seed, ""));`,
+    `  try {`,
+    `    return generate();`,
+    `  } finally {`,
+    `    seedState.seed = previous.seed;`,
+    `    seedState.frames = previous.frames;`,
+    `  }`,
+    `}`,
+    ``
+  );
+  return lines.join("\n");
 }
 
 // Helper: remove unused __options signature and destructuring when depth/maxDepth aren't referenced
@@ -411,6 +1119,35 @@ function stripUnusedOptionsFromText(text: string) {
   return text;
 }
 
+export type GenerateOptions = {
+  // Number of entries emitted for open-ended records and index signatures
+  recordEntries?: number | { min: number; max: number };
+  // How function-typed properties are stubbed: plain arrows or vi.fn/jest.fn spies
+  functionStubs?: "plain" | "vi" | "jest";
+  // Opt-in promise behaviour: rejected promises or resolution after `promiseDelay` ms
+  promiseMode?: "resolve" | "reject" | "delay";
+  promiseDelay?: number;
+  // Emit seeding support (per-call `seed` option, withSeed helper); a number
+  // also seeds every mock by default
+  seed?: number | true;
+  // How array overrides are applied: replace the generated array or merge by index
+  arrayMerge?: "replace" | "index";
+  // Emit a fluent XBuilder class and buildX() entry point per interface/class
+  builders?: boolean;
+  // Named override presets keyed by entity name, then trait name
+  traits?: Record<string, Record<string, Record<string, unknown>>>;
+  // How types from node_modules packages are mocked, per package
+  externalTypes?: ExternalTypes;
+  // Declared name of the types generated under another name (see naming.ts);
+  // they are imported with an alias
+  declaredNames?: Map<string, string>;
+  // Collects the mapped and conditional types that could not be resolved
+  unresolved?: Array<{ path: string; text: string }>;
+  // Probe for existing mock files when a reference can't be resolved to a
+  // source; defaults to the disk, in-memory generation passes its own
+  fileExists?: (filePath: string) => boolean;
+};
+
 // Accept typeToFileMap as an optional argument
 export function generate(
   projectRootDir: string,
@@ -421,14 +1158,21 @@ export function generate(
   useExport = false,
   currentMockFilePath?: string,
   typeToFileMap?: Map<string, string>,
-  mappings?: Record<string, string[]>,
-  mappingProvider?: string,
-  format: "ts" | "js" = "ts"
+  mappings?: Record<string, string | string[]>,
+  mappingProvider?: string | MappingProvider,
+  format: "ts" | "js" = "ts",
+  options: GenerateOptions = {}
 ) {
   // Initialize the inferGenerator with provided mappings (or fallback legacy file)
   setMappings(mappings);
-  // If the consumer provided a mappingProvider path (relative to cwd/project root), try to require it.
-  if (mappingProvider) {
+  const fileExists = options.fileExists ?? fs.existsSync;
+  // Providers differ between targets, so none carries over from a previous call
+  setMappingProvider(undefined);
+  // An inline provider function (from a JS/TS config) is used as is
+  if (typeof mappingProvider === "function") {
+    setMappingProvider(mappingProvider);
+  } else if (mappingProvider) {
+    // If the consumer provided a mappingProvider path (relative to cwd/project root), try to require it.
     try {
       // Resolve relative to process.cwd() so consumer can set e.g. "./typemockr-provider.ts"
       const providerPath = path.isAbsolute(mappingProvider)
@@ -446,7 +1190,7 @@ export function generate(
     } catch (err) {
       // Ignore load errors; fall back to mappings only.
       // But log to help users debug misconfigured provider paths
-      console.error(
+      logger.warn(
         `Failed to load mappingProvider from ${mappingProvider}:`,
         err
       );
@@ -496,6 +1240,9 @@ export function generate(
           referencedTypeLocations.set(prop.value, prop.location.file);
         }
       }
+    } else if (prop.type === "indexSignature") {
+      collectReferences(prop.keyType);
+      collectReferences(prop.valueType);
     } else if ("value" in prop && Array.isArray(prop.value)) {
       prop.value.forEach(collectReferences);
     } else if (
@@ -514,12 +1261,13 @@ export function generate(
   // Ensure we only emit inline TypeScript annotations when format === 'ts'
   includeTypes = Boolean(includeTypes && format === "ts");
 
-  const body = data
-    .filter((item) => {
-      // Emit only the highest-precedence definition per name to avoid duplicates
-      const best = nameToBestKind.get(item.name);
-      return best === (item as any).type;
-    })
+  const emitted = data.filter((item) => {
+    // Emit only the highest-precedence definition per name to avoid duplicates
+    const best = nameToBestKind.get(item.name);
+    return best === (item as any).type;
+  });
+  const emittedNames = new Set(emitted.map((item) => item.name));
+  const body = emitted
     .map((item) => {
       // Build a set of type names in this file whose mocks accept __options (recursive entities)
       const typesWithOptions = new Set<string>();
@@ -531,12 +1279,22 @@ export function generate(
         sourceFile: (item as any)?.location?.file,
         mockFile: currentMockFilePath,
         entityName: item.name,
+        derivedFrom:
+          item.type === "instance" ? item.derivedFrom?.name : undefined,
         entityHasRecursion: (item as any).hasRecursion === true,
         // Propagate generic parameter names for this entity only
         genericParamSet: new Set<string>(
           ((item as any).generics || []).map((g: any) => g.name)
         ),
         typesWithOptions,
+        recordEntries: options.recordEntries,
+        functionStubs: options.functionStubs,
+        // "resolve" is the default behaviour, only keep opt-in modes
+        promiseMode:
+          options.promiseMode === "resolve" ? undefined : options.promiseMode,
+        promiseDelay: options.promiseDelay,
+        seeded: options.seed !== undefined,
+        unresolved: options.unresolved,
       };
       // Extract generic parameters for proper type handling
       const generics = (item as any).generics || [];
@@ -548,10 +1306,64 @@ export function generate(
       const overridesType = includeTypes
         ? `: Partial<${item.name}${genericTypes}>`
         : "";
+      // Union factories fall back to a random member when called without overrides
+      const optionalMark = includeTypes ? "?" : "";
+      // Object-like factories deep-merge their overrides
+      const deepOverridesType = includeTypes
+        ? `: DeepPartial<${item.name}${genericTypes}>`
+        : "";
       const resultType = includeTypes ? `: ${item.name}${genericTypes}` : "";
       const exportKeyword = useExport ? `export ` : "";
       const anyType = includeTypes ? `: any` : "";
 
+      // Opening lines of the item factory: the signature, with an `__options`
+      // parameter when the factory tracks recursion depth or takes a per-call
+      // seed, and the statements reading them. A seeded call re-enters the
+      // factory inside withSeed() so every value derives from that seed.
+      const factoryHeader = ({
+        params = [],
+        recursive = false,
+        typeParams = "",
+        returnType = resultType,
+      }: {
+        params?: Array<[name: string, declaration: string]>;
+        recursive?: boolean;
+        typeParams?: string;
+        returnType?: string;
+      }) => {
+        const seeded = options.seed !== undefined;
+        const fields = [
+          ...(recursive ? ["depth?: number", "maxDepth?: number"] : []),
+          ...(seeded ? ["seed?: number"] : []),
+        ];
+        const declarations = params.map(([, declaration]) => declaration);
+        if (fields.length) {
+          declarations.push(
+            includeTypes
+              ? `__options: { ${fields.join("; ")} } = {}`
+              : `__options = {}`
+          );
+        }
+        const lines = [
+          `${exportKeyword}function Mock${item.name}${typeParams}(${declarations.join(", ")})${returnType} {`,
+        ];
+        if (seeded) {
+          const args = [
+            ...params.map(([name]) => name),
+            `{ ...__options, seed: undefined }`,
+          ];
+          lines.push(
+            `  if (__options.seed !== undefined) {`,
+            `    return withSeed(__options.seed, () => Mock${item.name}(${args.join(", ")}));`,
+            `  }`
+          );
+        }
+        if (recursive) {
+          lines.push(`  const { depth = 0, maxDepth = 2 } = __options;`);
+        }
+        return lines;
+      };
+
       const output = [];
       // if (item.isExported) {
       switch (item.type) {
@@ -569,33 +1381,16 @@ export function generate(
               })
               .join(", ");
 
-            if ((item as any).hasRecursion) {
-              if (includeTypes) {
-                output.push(
-                  `${exportKeyword}function Mock${item.name}(overrides${overridesType} = {}, __options: { depth?: number; maxDepth?: number } = {})${resultType} {`
-                );
-                output.push(`  const { depth = 0, maxDepth = 2 } = __options;`);
-              } else {
-                output.push(
-                  `${exportKeyword}function Mock${item.name}(overrides = {}, __options = {}) {`
-                );
-                output.push(`  const { depth = 0, maxDepth = 2 } = __options;`);
-              }
-            } else {
-              if (includeTypes) {
-                output.push(
-                  `${exportKeyword}function Mock${item.name}(overrides${overridesType} = {})${resultType} {`
-                );
-              } else {
-                output.push(
-                  `${exportKeyword}function Mock${item.name}(overrides = {}) {`
-                );
-              }
-            }
+            output.push(
+              ...factoryHeader({
+                params: [["overrides", `overrides${deepOverridesType} = {}`]],
+                recursive: (item as any).hasRecursion,
+              })
+            );
             output.push(`  const result = faker.helpers.arrayElement([`);
             output.push(`    faker.helpers.arrayElement([${values}])`);
             output.push(`  ]);`);
-            output.push(`  return { ...result, ...overrides }`);
+            output.push(`  return mergeDeep(result, overrides);`);
             output.push(`}`);
 
             output.push("");
@@ -631,33 +1426,14 @@ export function generate(
                   return "undefined";
                 })
                 .join(", ");
-              if ((item as any).hasRecursion) {
-                if (includeTypes) {
-                  output.push(
-                    `${exportKeyword}function Mock${item.name}(overrides${overridesType}, __options: { depth?: number; maxDepth?: number } = {})${resultType} {`
-                  );
-                  output.push(
-                    `  const { depth = 0, maxDepth = 2 } = __options;`
-                  );
-                } else {
-                  output.push(
-                    `${exportKeyword}function Mock${item.name}(overrides, __options = {}) {`
-                  );
-                  output.push(
-                    `  const { depth = 0, maxDepth = 2 } = __options;`
-                  );
-                }
-              } else {
-                if (includeTypes) {
-                  output.push(
-                    `${exportKeyword}function Mock${item.name}(overrides${overridesType})${resultType} {`
-                  );
-                } else {
-                  output.push(
-                    `${exportKeyword}function Mock${item.name}(overrides) {`
-                  );
-                }
-              }
+              output.push(
+                ...factoryHeader({
+                  params: [
+                    ["overrides", `overrides${optionalMark}${overridesType}`],
+                  ],
+                  recursive: (item as any).hasRecursion,
+                })
+              );
               output.push(
                 `  return overrides ?? faker.helpers.arrayElement([${values}]);`
               );
@@ -665,23 +1441,36 @@ export function generate(
               output.push("");
               return output.join("\n");
             }
-            // Otherwise, treat as constants (string/number/boolean)
+            // Otherwise, constants (string/number/boolean) are asserted to the
+            // union, other members (object literals, primitives) generated as values
             const values = item.values
               .map((value) => {
+                if (value.type !== "constant") {
+                  return generateValue(value, item.name, includeTypes, context);
+                }
                 return generateConstantValue(
-                  value as ASTConstantProperty,
+                  value,
                   item.name,
                   includeTypes,
                   true // isUnionOrEnum
                 );
               })
               .join(", ");
+            // Partial overrides of object members replace the generated value
+            const returned =
+              includeTypes && item.values.some((v) => v.type !== "constant")
+                ? `(overrides as ${item.name}${genericTypes} | undefined)`
+                : "overrides";
 
             output.push(
-              `${exportKeyword}function Mock${item.name}(overrides${overridesType})${resultType} {`
+              ...factoryHeader({
+                params: [
+                  ["overrides", `overrides${optionalMark}${overridesType}`],
+                ],
+              })
             );
             output.push(
-              `  return overrides ?? faker.helpers.arrayElement([${values}]);`
+              `  return ${returned} ?? faker.helpers.arrayElement([${values}]);`
             );
             output.push(`}`);
             output.push("");
@@ -891,51 +1680,38 @@ export function generate(
 
             const properties = item.properties.map((prop) => {
               const mockValue = generateMockValue(prop, generics);
+              let value = mockValue;
               if (prop.optional) {
                 const wrapped = mockValue.trim().startsWith("{")
                   ? `(${mockValue})`
                   : mockValue;
-                // return `    "${prop.name}": faker.helpers.maybe(() => ${wrapped}, { probability: 0.8 })`;
-                return `    "${prop.name}": faker.helpers.maybe(() => ${wrapped})`;
+                // value = `faker.helpers.maybe(() => ${wrapped}, { probability: 0.8 })`;
+                value = `faker.helpers.maybe(() => ${wrapped})`;
               }
-              return `    "${prop.name}": ${mockValue}`;
+              value = seedByPath(value, `${item.name}.${prop.name}`, context);
+              return `    "${prop.name}": ${value}`;
             });
 
             // Generate parameters for generic classes
-            const mockGenericParams =
-              generics.length > 0
-                ? generics
-                    .map((g: any) =>
-                      includeTypes
-                        ? `mock${g.name}: () => ${g.name} = () => ({} as ${g.name})`
-                        : `mock${g.name}: () => ${g.name} = () => ({})`
-                    )
-                    .join(", ") + ", "
-                : "";
+            const mockGenericParams = generics.map(
+              (g: any): [string, string] => [
+                `mock${g.name}`,
+                includeTypes
+                  ? `mock${g.name}: () => ${g.name} = () => ({} as ${g.name})`
+                  : `mock${g.name}: () => ${g.name} = () => ({})`,
+              ]
+            );
 
-            if (context.entityHasRecursion) {
-              if (includeTypes) {
-                output.push(
-                  `${exportKeyword}function Mock${item.name}${genericParams}(${mockGenericParams}overrides${overridesType} = {}, __options: { depth?: number; maxDepth?: number } = {})${resultType} {`
-                );
-                output.push(`  const { depth = 0, maxDepth = 2 } = __options;`);
-              } else {
-                output.push(
-                  `${exportKeyword}function Mock${item.name}${genericParams}(${mockGenericParams}overrides = {}, __options = {}) {`
-                );
-                output.push(`  const { depth = 0, maxDepth = 2 } = __options;`);
-              }
-            } else {
-              if (includeTypes) {
-                output.push(
-                  `${exportKeyword}function Mock${item.name}${genericParams}(${mockGenericParams}overrides${overridesType} = {})${resultType} {`
-                );
-              } else {
-                output.push(
-                  `${exportKeyword}function Mock${item.name}${genericParams}(${mockGenericParams}overrides = {}) {`
-                );
-              }
-            }
+            output.push(
+              ...factoryHeader({
+                params: [
+                  ...mockGenericParams,
+                  ["overrides", `overrides${deepOverridesType} = {}`],
+                ],
+                recursive: context.entityHasRecursion,
+                typeParams: genericParams,
+              })
+            );
             // For classes, by default we previously created a prototype-based instance
             // (Object.create(Class.prototype)) which requires importing the class at runtime.
             // In JS mode we avoid runtime imports and instead return plain objects.
@@ -951,7 +1727,9 @@ export function generate(
               output.push(
                 `  const instance = Object.create(${item.name}.prototype);`
               );
-              output.push(`  Object.assign(instance, base, overrides);`);
+              output.push(
+                `  Object.assign(instance, mergeDeep(base, overrides));`
+              );
               if (includeTypes) {
                 output.push(`  return instance as ${item.name}${genericTypes}`);
               } else {
@@ -965,7 +1743,7 @@ export function generate(
               }
               output.push(`    ${properties.join(",\n    ")}`);
               output.push(`  };`);
-              output.push(`  return { ...result, ...overrides }`);
+              output.push(`  return mergeDeep(result, overrides);`);
             }
             output.push(`}`);
 
@@ -975,11 +1753,13 @@ export function generate(
 
         case "placeholder":
           {
-            console.warn(
+            logger.warn(
               `Encountered placeholder type for ${item.name}, returning minimal object.`
             );
             output.push(
-              `${exportKeyword}function Mock${item.name}(overrides${anyType})${resultType} {`
+              ...factoryHeader({
+                params: [["overrides", `overrides${anyType}`]],
+              })
             );
             output.push(`  return {`);
             output.push(
@@ -1000,9 +1780,7 @@ export function generate(
               includeTypes
             );
 
-            output.push(
-              `${exportKeyword}function Mock${item.name}()${resultType} {`
-            );
+            output.push(...factoryHeader({}));
             output.push(`  return ${value};`);
             output.push(`}`);
 
@@ -1019,9 +1797,7 @@ export function generate(
               context
             );
 
-            output.push(
-              `${exportKeyword}function Mock${item.name}()${resultType} {`
-            );
+            output.push(...factoryHeader({}));
             output.push(`  return ${value}`);
             output.push(`}`);
 
@@ -1037,20 +1813,17 @@ export function generate(
               includeTypes,
               context
             );
-            if ((item as any).hasRecursion) {
-              output.push(
-                `${exportKeyword}function Mock${item.name}(overrides${
-                  resultType ? `?${resultType}` : ""
-                }, __options: { depth?: number; maxDepth?: number } = {})${resultType} {`
-              );
-              output.push(`  const { depth = 0, maxDepth = 2 } = __options;`);
-            } else {
-              output.push(
-                `${exportKeyword}function Mock${item.name}(overrides${
-                  resultType ? `?${resultType}` : ""
-                })${resultType} {`
-              );
-            }
+            output.push(
+              ...factoryHeader({
+                params: [
+                  [
+                    "overrides",
+                    `overrides${resultType ? `?${resultType}` : ""}`,
+                  ],
+                ],
+                recursive: (item as any).hasRecursion,
+              })
+            );
             output.push(`  const result = ${value}`);
             output.push(`  return overrides ?? result;`);
             output.push(`}`);
@@ -1061,23 +1834,39 @@ export function generate(
 
         case "enum":
           {
-            // item.values is an array of enum member names
-            const values = (item.values || [])
-              .map((v) => {
+            // TS output references the members (Status.Active), JS output inlines
+            // their runtime values so no import of the enum is required. Computed
+            // members without a constant value can only be referenced by name.
+            const values = (item.members || [])
+              .map((m) => {
                 if (format === "js") {
-                  // Emit the member name or string literal so no runtime import is required
-                  return `"${v}"`;
+                  if (m.value === undefined) return undefined;
+                  return typeof m.value === "string"
+                    ? JSON.stringify(m.value)
+                    : `${m.value}`;
                 }
-                return `${item.name}.${v}`;
+                return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(m.name)
+                  ? `${item.name}.${m.name}`
+                  : `${item.name}[${JSON.stringify(m.name)}]`;
               })
+              .filter((v) => v !== undefined)
               .join(", ");
-            output.push(
-              `${exportKeyword}function Mock${item.name}()${resultType} {`
-            );
-            if (format === "js") {
+            output.push(...factoryHeader({}));
+            if (values) {
               output.push(`  return faker.helpers.arrayElement([${values}]);`);
             } else {
-              output.push(`  return faker.helpers.arrayElement([${values}]);`);
+              // arrayElement throws on an empty list: an enum without members,
+              // or (JS output) without members with a constant value
+              logger.warn(
+                `Enum ${item.name} has no member ${
+                  format === "js" ? "with a constant value " : ""
+                }to pick, Mock${item.name}() returns undefined`
+              );
+              output.push(
+                `  return undefined${
+                  includeTypes ? ` as unknown as ${item.name}` : ""
+                };`
+              );
             }
             output.push(`}`);
             output.push("");
@@ -1087,14 +1876,53 @@ export function generate(
       // }
       // If for some reason no case handled this item, return an empty string to satisfy map's return.
       return "";
+    })
+    .map((code, index) => {
+      const item = emitted[index];
+      if (!code || !item) return code;
+      // Skip the list factory when it would clash with another entity's factory
+      const listName = `${item.name}List`;
+      if (!emittedNames.has(listName) && !typeToFileMap?.has(listName)) {
+        code += "\n" + generateListFactory(item, includeTypes, useExport);
+      }
+      const builder = builderName(item.name);
+      if (
+        options.builders &&
+        item.type === "instance" &&
+        !emittedNames.has(builder) &&
+        !typeToFileMap?.has(builder)
+      ) {
+        code += "\n" + generateBuilder(item, includeTypes, useExport);
+      }
+      const traits = options.traits?.[item.name];
+      if (traits && Object.keys(traits).length) {
+        if (item.type === "instance" || item.type === "alias") {
+          code +=
+            "\n" +
+            generateTraits(item, traits, emittedNames, includeTypes, useExport);
+        } else {
+          logger.warn(
+            `Ignoring traits for ${item.name}: only interfaces, classes and object aliases support traits`
+          );
+        }
+      }
+      return code;
     });
   // Now compute import statements (do this after body generation so referencedTypes is complete)
   // Ensure any MockX() usages accidentally introduced into the generated body are captured
   // so the import assembly will include their imports.
   try {
     const bodyText = body.join("\n");
+    // Companion factories (MockXList, trait shortcuts) are declared in this file
+    const localFactories = new Set(
+      Array.from(
+        bodyText.matchAll(/function Mock([A-Za-z0-9_]+)\s*[<(]/g),
+        (m) => m[1]
+      )
+    );
     for (const m of bodyText.matchAll(/Mock([A-Za-z0-9_]+)\s*\(/g)) {
       const name = m[1];
+      if (name && localFactories.has(name) && !emittedNames.has(name)) continue;
       if (name) {
         referencedTypes.add(name);
         if (!referencedTypeLocations.has(name) && typeToFileMap?.get(name)) {
@@ -1104,6 +1932,10 @@ export function generate(
     }
   } catch {}
   let importStmts = "import { faker } from '@faker-js/faker';\n";
+  // vi.fn stubs need the vitest import, jest.fn relies on the jest globals
+  if (/\bvi\.fn\(/.test(body.join("\n"))) {
+    importStmts += "import { vi } from 'vitest';\n";
+  }
   if (currentMockFilePath && data.length > 0) {
     const mockDir = path.dirname(currentMockFilePath);
     const nameToEntityKind = new Map<string, string>();
@@ -1127,7 +1959,6 @@ export function generate(
         typeImports.set(typeName, srcFile);
     }
 
-    const INPUT_PROJECT_PATH = process.cwd();
     const fileToGroups = new Map<
       string,
       { typeOnly: Set<string>; value: Set<string> }
@@ -1159,21 +1990,24 @@ export function generate(
       }
     }
     const importLines: string[] = [];
+    const specifier = (typeName: string) => {
+      const declared = options.declaredNames?.get(typeName);
+      return declared ? `${declared} as ${typeName}` : typeName;
+    };
     for (const [srcFile, groups] of Array.from(fileToGroups.entries())) {
-      const mockToRoot = path.relative(mockDir, INPUT_PROJECT_PATH);
-      const rootToSrc = path.relative(INPUT_PROJECT_PATH, srcFile);
-      let relTypePath = path.join(mockToRoot, rootToSrc).replace(/\\/g, "/");
-      relTypePath = relTypePath.replace(/\.(d\.)?(ts|js)$/, "");
-      if (!relTypePath.startsWith(".")) relTypePath = "./" + relTypePath;
+      const relTypePath = getTypeImportSpecifier(mockDir, srcFile);
       if (groups.typeOnly.size) {
         // In TS mode emit `import type`
         if (format === "ts") {
-          const names = Array.from(groups.typeOnly).sort().join(", ");
+          const names = Array.from(groups.typeOnly)
+            .sort()
+            .map(specifier)
+            .join(", ");
           importLines.push(`import type { ${names} } from '${relTypePath}';`);
         }
       }
       if (groups.value.size) {
-        const names = Array.from(groups.value).sort().join(", ");
+        const names = Array.from(groups.value).sort().map(specifier).join(", ");
         importLines.push(`import { ${names} } from '${relTypePath}';`);
       }
     }
@@ -1236,6 +2070,7 @@ export function generate(
         if (!refSourceFile) refSourceFile = baseMocks.get(ref);
         if (!refSourceFile) refSourceFile = typeToFileMap?.get(ref);
         let relPathComputed: string | undefined;
+        let factoryName = ref;
         if (!refSourceFile) {
           // Try to find the mock file by walking up parent directories from current mock dir
           const candidateNameTs = `${ref}.mock.ts`;
@@ -1246,15 +2081,15 @@ export function generate(
           for (let i = 0; i < 20; i++) {
             const tryPathTs = path.join(curDir, candidateNameTs);
             const tryPath = path.join(curDir, candidateName);
-            if (fs.existsSync(tryPathTs)) {
+            if (fileExists(tryPathTs)) {
               found = tryPathTs;
               break;
             }
-            if (fs.existsSync(tryPath + ".ts")) {
+            if (fileExists(tryPath + ".ts")) {
               found = tryPath + ".ts";
               break;
             }
-            if (fs.existsSync(tryPath)) {
+            if (fileExists(tryPath)) {
               found = tryPath;
               break;
             }
@@ -1288,6 +2123,34 @@ export function generate(
             if (!relPathComputed.endsWith(".js"))
               relPathComputed = relPathComputed + ".js";
           }
+        } else if (getExternalPackage(refSourceFile)) {
+          // node_modules types: generated into $external or user factories
+          const packageName = getExternalPackage(refSourceFile)!;
+          const strategy = getExternalStrategy(
+            options.externalTypes,
+            packageName
+          );
+          const mockDir = path.dirname(currentMockFilePath);
+          if (typeof strategy === "object") {
+            // User factories are named after the declared type
+            factoryName = options.declaredNames?.get(ref) ?? ref;
+            relPathComputed = getFactoriesSpecifier(
+              mockDir,
+              projectRootDir,
+              strategy.factories,
+              format
+            );
+          } else {
+            relPathComputed = path
+              .relative(
+                mockDir,
+                getExternalMockPath(outputRootDir, packageName, ref, format)
+              )
+              .replace(/\\/g, "/")
+              .replace(/\.ts$/, "");
+            if (!relPathComputed.startsWith("."))
+              relPathComputed = "./" + relPathComputed;
+          }
         } else {
           const { mockPath: refMockPath } = getOutputPathsForSourceFile({
             sourceFile: {
@@ -1312,7 +2175,13 @@ export function generate(
         if (!relPathComputed) continue;
         if (!relPathToMocks.has(relPathComputed))
           relPathToMocks.set(relPathComputed, new Set());
-        relPathToMocks.get(relPathComputed)!.add(`Mock${ref}`);
+        relPathToMocks
+          .get(relPathComputed)!
+          .add(
+            factoryName && factoryName !== ref
+              ? `Mock${factoryName} as Mock${ref}`
+              : `Mock${ref}`
+          );
       }
       const groupedMockImportLines = Array.from(relPathToMocks.entries())
         .map(([relPath, names]) => {
@@ -1344,24 +2213,24 @@ export function generate(
         const resolvedPath = path.join(mockDir, `${ref}.mock`);
         let resolved = path.join(mockDir, `${ref}.mock.ts`);
         if (
-          !fs.existsSync(resolved) &&
-          !fs.existsSync(resolvedPath + ".ts") &&
-          !fs.existsSync(resolvedPath)
+          !fileExists(resolved) &&
+          !fileExists(resolvedPath + ".ts") &&
+          !fileExists(resolvedPath)
         ) {
           // search upwards
           let cur = mockDir;
           for (let i = 0; i < 20; i++) {
             const tryTs = path.join(cur, `${ref}.mock.ts`);
             const tryNoExt = path.join(cur, `${ref}.mock`);
-            if (fs.existsSync(tryTs)) {
+            if (fileExists(tryTs)) {
               resolved = tryTs;
               break;
             }
-            if (fs.existsSync(tryNoExt + ".ts")) {
+            if (fileExists(tryNoExt + ".ts")) {
               resolved = tryNoExt + ".ts";
               break;
             }
-            if (fs.existsSync(tryNoExt)) {
+            if (fileExists(tryNoExt)) {
               resolved = tryNoExt;
               break;
             }
@@ -1394,5 +2263,24 @@ export function generate(
   // Use helper to strip unused options across entire final body
   finalBody = stripUnusedOptionsFromText(finalBody);
 
+  const helpers = generatePromiseHelpers(finalBody, includeTypes);
+  if (helpers) finalBody = helpers + "\n" + finalBody;
+
+  const mergeHelpers = generateMergeHelpers(
+    finalBody,
+    includeTypes,
+    options.arrayMerge ?? "replace"
+  );
+  if (mergeHelpers) finalBody = mergeHelpers + "\n" + finalBody;
+
+  if (options.seed !== undefined) {
+    const seedHelpers = generateSeedHelpers(
+      includeTypes,
+      useExport,
+      typeof options.seed === "number" ? options.seed : undefined
+    );
+    finalBody = seedHelpers + "\n" + finalBody;
+  }
+
   return (importStmts ? importStmts + "\n\n" : "") + finalBody;
 }
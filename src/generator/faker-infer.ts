@@ -1,25 +1,45 @@
 import { defineGeneratorMatchers } from "../category";
+import { logger } from "../logger";
 
 // Optional context with file info we can thread through value generation
 export type GenerationContext = {
   sourceFile?: string;
   mockFile?: string;
   entityName?: string;
+  // Type the entity takes its properties from (Pick<User, "id">), whose
+  // mapping paths apply when the entity's own don't
+  derivedFrom?: string;
   entityHasRecursion?: boolean;
   genericParamSet?: Set<string>;
   typesWithOptions?: Set<string>;
+  // Number of entries emitted for open-ended records and index signatures
+  recordEntries?: number | { min: number; max: number };
+  // How function-typed properties are stubbed: plain arrows or vi.fn/jest.fn spies
+  functionStubs?: "plain" | "vi" | "jest";
+  // Opt-in promise behaviour; resolved promises when unset
+  promiseMode?: "reject" | "delay";
+  promiseDelay?: number;
+  // Property values are wrapped in seeded() calls (see generateSeedHelpers)
+  seeded?: boolean;
+  // Paths whose values are returned by a function stub or resolved by a
+  // promise, in nesting order: their type assertions go through ReturnType or
+  // Awaited of the property type (see pathType in generation.ts)
+  unwrapPaths?: Array<{ path: string; unwrap: "ReturnType" | "Awaited" }>;
+  // Collects the mapped and conditional types left unresolved (see generation.ts)
+  unresolved?: Array<{ path: string; text: string }>;
 };
 
+// Returns a faker expression for a property, or nothing to fall back to mappings
+export type MappingProvider = (
+  type: string,
+  path: string,
+  _context?: GenerationContext
+) => string | undefined | null;
+
 // Module-level infer generator which can be configured by callers via `setMappings`.
 let inferGenerator = defineGeneratorMatchers({} as Record<string, string[]>);
 // Optional runtime mapping provider function supplied by the consuming project.
-let mappingProviderFunc:
-  | ((
-      type: string,
-      path: string,
-      _context?: GenerationContext
-    ) => string | undefined | null)
-  | undefined = undefined;
+let mappingProviderFunc: MappingProvider | undefined = undefined;
 
 export function setMappings(mappings?: Record<string, string | string[]>) {
   // Support both shapes:
@@ -30,34 +50,19 @@ export function setMappings(mappings?: Record<string, string | string[]>) {
     return;
   }
 
-  // Detect shape by inspecting the first value type
-  const firstVal = Object.values(mappings)[0];
-  let normalized: Record<string, string[]> = {};
-  if (typeof firstVal === "string") {
-    // pattern -> generator  (new style). Convert to generator -> [patterns]
-    for (const [pattern, generator] of Object.entries(mappings)) {
-      if (typeof generator !== "string") continue;
-      const g = generator as string;
-      if (!normalized[g]) normalized[g] = [];
-      normalized[g].push(pattern);
-    }
-  } else {
-    // generator -> patterns (legacy shape)
-    normalized = mappings as Record<string, string[]>;
+  // Normalize per entry so both shapes can be mixed in one object
+  const normalized: Record<string, string[]> = {};
+  for (const [key, value] of Object.entries(mappings)) {
+    // pattern -> generator: convert to generator -> [patterns]
+    const [generator, patterns] =
+      typeof value === "string" ? [value, [key]] : [key, value];
+    normalized[generator] = [...(normalized[generator] ?? []), ...patterns];
   }
 
-  inferGenerator = defineGeneratorMatchers(
-    normalized as Record<string, string[]>
-  );
+  inferGenerator = defineGeneratorMatchers(normalized);
 }
 
-export function setMappingProvider(
-  fn?: (
-    type: string,
-    path: string,
-    _context?: GenerationContext
-  ) => string | undefined | null
-) {
+export function setMappingProvider(fn?: MappingProvider) {
   mappingProviderFunc = fn;
 }
 
@@ -65,11 +70,22 @@ export function inferMapping(path: string): string | null {
   return inferGenerator(path) || null;
 }
 
-export function getFakerGenerator(
+// `path` rewritten to the type the entity is derived from: UserPreview.email
+// -> User.email
+function derivedPath(path: string, context?: GenerationContext) {
+  const { entityName, derivedFrom } = context ?? {};
+  if (!entityName || !derivedFrom || !path.startsWith(`${entityName}.`))
+    return undefined;
+  return derivedFrom + path.slice(entityName.length);
+}
+
+// Resolve a generator from the mapping provider or the configured mappings only,
+// without the built-in per-type defaults
+export function getMappedGenerator(
   type: string,
   path: string,
   _context?: GenerationContext
-) {
+): string | undefined {
   // If a runtime mapping provider exists, call it first. If it returns a value
   // (truthy or empty string), use it. If it returns undefined/null, fall through.
   try {
@@ -79,9 +95,11 @@ export function getFakerGenerator(
     }
   } catch (err) {
     // If the provider throws, ignore and fall back to built-in mappings
-    console.error("mappingProvider threw:", err);
+    logger.warn(`mappingProvider threw for ${path}:`, err);
   }
-  const nameBased = inferGenerator(path);
+  const derived = derivedPath(path, _context);
+  const nameBased =
+    inferGenerator(path) || (derived ? inferGenerator(derived) : undefined);
 
   if (nameBased) {
     if (
@@ -101,6 +119,43 @@ export function getFakerGenerator(
     }
     return nameBased;
   }
+  return undefined;
+}
+
+// Describe where the generator for a path comes from (used by `typemockr explain`)
+export function explainGenerator(
+  type: string,
+  path: string,
+  _context?: GenerationContext
+): {
+  generator: string;
+  origin: "mappingProvider" | "mappings" | "default";
+  pattern?: string;
+} {
+  const generator = getFakerGenerator(type, path, _context);
+  const derived = derivedPath(path, _context);
+  const pattern =
+    inferGenerator.matchingPattern(path) ??
+    (derived ? inferGenerator.matchingPattern(derived) : undefined);
+  let fromProvider = false;
+  try {
+    const v = mappingProviderFunc?.(type, path, _context);
+    fromProvider = v !== undefined && v !== null;
+  } catch {
+    // reported by getMappedGenerator
+  }
+  if (fromProvider) return { generator, origin: "mappingProvider" };
+  if (pattern) return { generator, origin: "mappings", pattern };
+  return { generator, origin: "default" };
+}
+
+export function getFakerGenerator(
+  type: string,
+  path: string,
+  _context?: GenerationContext
+) {
+  const mapped = getMappedGenerator(type, path, _context);
+  if (mapped !== undefined) return mapped;
 
   switch (type) {
     case "any":
@@ -114,6 +169,8 @@ export function getFakerGenerator(
       return "faker.datatype.boolean()";
     case "null":
       return "null";
+    case "undefined":
+      return "undefined";
     case "date":
       return "faker.date.recent()";
     case "object":
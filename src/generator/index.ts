@@ -2,6 +2,9 @@ export {
   setMappings,
   setMappingProvider,
   getFakerGenerator,
+  getMappedGenerator,
+  explainGenerator,
   inferMapping,
   type GenerationContext,
+  type MappingProvider,
 } from "./faker-infer";
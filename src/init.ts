@@ -0,0 +1,197 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ts } from "ts-morph";
+import type { RawConfig } from "./types";
+import { createProject } from "./typemockr";
+import { parseEntities } from "./parser";
+import type { ASTProperty } from "./ast-types";
+
+// Well-known property names, the primitive type they must have and the faker
+// expression suggested for them
+const STARTER_MAPPINGS: Array<[RegExp, "string" | "number" | "date", string]> =
+  [
+    [/^e?mail(address)?$/i, "string", "faker.internet.email()"],
+    [/^first_?name$/i, "string", "faker.person.firstName()"],
+    [/^last_?name$/i, "string", "faker.person.lastName()"],
+    [/^full_?name$/i, "string", "faker.person.fullName()"],
+    [/^user_?name$/i, "string", "faker.internet.username()"],
+    [/^password$/i, "string", "faker.internet.password()"],
+    [/^(phone|phone_?number|mobile)$/i, "string", "faker.phone.number()"],
+    [/^(url|website|homepage)$/i, "string", "faker.internet.url()"],
+    [/^avatar(_?url)?$/i, "string", "faker.image.avatar()"],
+    [/^street$/i, "string", "faker.location.street()"],
+    [/^city$/i, "string", "faker.location.city()"],
+    [/^country$/i, "string", "faker.location.country()"],
+    [
+      /^(zip|zip_?code|postal_?code|postcode)$/i,
+      "string",
+      "faker.location.zipCode()",
+    ],
+    [/^(company|company_?name)$/i, "string", "faker.company.name()"],
+    [/^title$/i, "string", "faker.lorem.sentence()"],
+    [/^description$/i, "string", "faker.lorem.paragraph()"],
+    [
+      /^(price|amount|total)$/i,
+      "number",
+      "faker.number.float({ min: 1, max: 1000, fractionDigits: 2 })",
+    ],
+    [/^(created|updated|deleted)_?at$/i, "date", "faker.date.past()"],
+    [
+      /^(created|updated|deleted)_?at$/i,
+      "string",
+      "faker.date.past().toISOString()",
+    ],
+    [/^(id|uuid)$/i, "string", "faker.string.uuid()"],
+  ];
+
+type TsConfigInfo = {
+  rootDir?: string;
+  include?: string[];
+  // Directories targeted by `paths` aliases, relative to the project root
+  pathDirs: string[];
+};
+
+// Read tsconfig.json (following `extends`) for the settings init cares about
+function readTsConfig(projectRootDir: string): TsConfigInfo | undefined {
+  const tsconfigPath = path.join(projectRootDir, "tsconfig.json");
+  if (!fs.existsSync(tsconfigPath)) return undefined;
+  const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  if (error) return undefined;
+  const parsed = ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    projectRootDir,
+    undefined,
+    tsconfigPath
+  );
+  const toRelative = (dir: string) =>
+    path.relative(projectRootDir, dir).replace(/\\/g, "/") || ".";
+
+  const pathDirs = new Set<string>();
+  const baseUrl = parsed.options.baseUrl ?? projectRootDir;
+  for (const targets of Object.values(parsed.options.paths ?? {})) {
+    for (const target of targets) {
+      // "src/app/*" -> "src/app"; file targets contribute their directory
+      const dir = target.replace(/\/?\*.*$/, "");
+      const absolute = path.resolve(baseUrl, dir);
+      if (!absolute.includes("node_modules"))
+        pathDirs.add(
+          toRelative(path.extname(absolute) ? path.dirname(absolute) : absolute)
+        );
+    }
+  }
+  return {
+    rootDir: parsed.options.rootDir && toRelative(parsed.options.rootDir),
+    include: config.include,
+    pathDirs: Array.from(pathDirs),
+  };
+}
+
+// Turn a tsconfig include entry into a TypeScript source glob
+function toSourceGlob(pattern: string) {
+  const trimmed = pattern.replace(/^\.\//, "").replace(/\/$/, "");
+  if (/\.(ts|tsx)$/.test(trimmed)) return trimmed;
+  if (trimmed.endsWith("*")) return trimmed.replace(/\*$/, "*.ts");
+  return `${trimmed}/**/*.ts`;
+}
+
+function isCovered(dir: string, roots: string[]) {
+  return roots.some(
+    (root) => root === "." || dir === root || dir.startsWith(`${root}/`)
+  );
+}
+
+// Propose include/baseDir/outDir from the project's tsconfig: sources live under
+// rootDir (or the tsconfig include roots), baseDir strips that prefix so mocks
+// don't end up in `$mock/src/...`, and the output directory is excluded again.
+export function proposeConfig(
+  projectRootDir: string,
+  outDir?: string
+): RawConfig {
+  const tsconfig = readTsConfig(projectRootDir);
+  let roots: string[];
+  if (tsconfig?.rootDir) {
+    roots = [tsconfig.rootDir];
+  } else if (tsconfig?.include?.length) {
+    roots = Array.from(
+      new Set(
+        tsconfig.include.map(
+          (pattern) => toSourceGlob(pattern).split(/\/\*|\/[^/]*\*/)[0] || "."
+        )
+      )
+    );
+  } else {
+    roots = fs.existsSync(path.join(projectRootDir, "src")) ? ["src"] : ["."];
+  }
+  const baseDirs = roots.filter((root) => root !== ".");
+  outDir ??= `${baseDirs[0] ?? "."}/$mock`.replace(/^\.\//, "");
+
+  const include =
+    tsconfig?.include?.length && !tsconfig.rootDir
+      ? tsconfig.include.map(toSourceGlob)
+      : roots.map((root) => (root === "." ? "**/*.ts" : `${root}/**/*.ts`));
+  for (const dir of tsconfig?.pathDirs ?? []) {
+    if (!isCovered(dir, roots)) include.push(`${dir}/**/*.ts`);
+  }
+  include.push(
+    `!${outDir.replace(/^\.\/|\/$/g, "")}/**`,
+    "!**/*.d.ts",
+    "!**/*.mock.ts",
+    "!**/*.test.ts",
+    "!**/*.spec.ts",
+    "!**/node_modules/**"
+  );
+
+  return { include, baseDir: baseDirs, outDir };
+}
+
+// Starter mappings (pattern -> generator) for the well-known property names
+// used in the included types; unknown names keep the default inference
+export function proposeMappings(
+  projectRootDir: string,
+  include: string[]
+): Record<string, string> {
+  const project = createProject({ projectRootDir, include });
+  const mappings: Record<string, string> = {};
+  const visit = (props: ASTProperty[]) => {
+    for (const prop of props) {
+      if (prop.type === "object") visit(prop.value);
+      if (prop.type !== "primitive" || mappings[`*.${prop.name}`]) continue;
+      const match = STARTER_MAPPINGS.find(
+        ([re, type]) => type === prop.value && re.test(prop.name)
+      );
+      if (match) mappings[`*.${prop.name}`] = match[2];
+    }
+  };
+  for (const entity of parseEntities(project)) {
+    if (entity.type === "instance") visit(entity.properties);
+  }
+  return mappings;
+}
+
+// Config file text with a comment above each key (typemockr.json accepts comments)
+export function renderConfig(config: RawConfig & { $schema?: string }) {
+  const comments: Record<string, string> = {
+    $schema: "Enables completion and validation in editors",
+    include: "Source globs to generate mocks for; `!` excludes",
+    baseDir:
+      "Prefixes stripped from source paths when mirroring them into outDir",
+    outDir: "Where the generated *.mock.ts files are written",
+    format: `"ts" emits .mock.ts, "js" emits .mock.js with .mock.d.ts`,
+    mappings:
+      "Property path pattern -> faker expression; edit or extend as needed",
+  };
+  const entries = Object.entries(config).filter(
+    ([, value]) => value !== undefined
+  );
+  const lines = ["{"];
+  entries.forEach(([key, value], index) => {
+    if (comments[key]) lines.push(`  // ${comments[key]}`);
+    const json = JSON.stringify(value, null, 2).replace(/\n/g, "\n  ");
+    lines.push(
+      `  ${JSON.stringify(key)}: ${json}${index < entries.length - 1 ? "," : ""}`
+    );
+  });
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
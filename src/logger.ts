@@ -0,0 +1,44 @@
+// Output verbosity shared by the CLI and the generator: "quiet" only prints
+// errors, "verbose" adds per-file details.
+export type LogLevel = "quiet" | "normal" | "verbose";
+
+let level: LogLevel = "normal";
+
+export function setLogLevel(next: LogLevel) {
+  level = next;
+}
+
+// Warnings logged while collectWarnings runs are also recorded, so callers of
+// the programmatic API get them with the result
+let collected: string[] | undefined;
+
+export function collectWarnings<T>(run: () => T): [T, string[]] {
+  const previous = collected;
+  const warnings: string[] = [];
+  collected = warnings;
+  try {
+    return [run(), warnings];
+  } finally {
+    collected = previous;
+  }
+}
+
+export const logger = {
+  debug(...args: unknown[]) {
+    if (level === "verbose") console.log(...args);
+  },
+  info(...args: unknown[]) {
+    if (level !== "quiet") console.log(...args);
+  },
+  warn(...args: unknown[]) {
+    collected?.push(
+      args
+        .map((arg) => (arg instanceof Error ? arg.message : String(arg)))
+        .join(" ")
+    );
+    if (level !== "quiet") console.warn(...args);
+  },
+  error(...args: unknown[]) {
+    console.error(...args);
+  },
+};
@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as path from "path";
+import { hashContent } from "./cache";
+
+// Written into the output root; lists the files generation created there
+export const MANIFEST_FILE = ".typemockr-manifest.json";
+
+export type Manifest = {
+  // Output-root-relative path (forward slashes) -> hash of the generated content
+  files: Record<string, string>;
+};
+
+export type PruneResult = {
+  // Owned files no source generates anymore (including the ones removed)
+  orphaned: string[];
+  removed: string[];
+  // Orphans left in place because they were edited after generation
+  modified: string[];
+};
+
+function toKey(outputRootDir: string, file: string) {
+  return path.relative(outputRootDir, file).replace(/\\/g, "/");
+}
+
+export function loadManifest(outputRootDir: string): Manifest | undefined {
+  try {
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(outputRootDir, MANIFEST_FILE), "utf-8")
+    ) as Manifest;
+    return typeof manifest.files === "object" ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Files listed in the manifest, as absolute paths
+export function getOwnedFiles(manifest: Manifest, outputRootDir: string) {
+  return Object.keys(manifest.files).map((key) =>
+    path.join(outputRootDir, key)
+  );
+}
+
+// Record the outputs of a run in the manifest, then report (or with `prune`,
+// delete) owned files that are no longer expected. Only files listed in the
+// manifest with unchanged content are ever deleted.
+export function updateManifest(
+  outputRootDir: string,
+  outputs: Map<string, string>,
+  expected: Set<string>,
+  prune = false
+): PruneResult {
+  const manifest = loadManifest(outputRootDir) ?? { files: {} };
+  for (const [file, content] of outputs)
+    manifest.files[toKey(outputRootDir, file)] = hashContent(content);
+
+  const result: PruneResult = { orphaned: [], removed: [], modified: [] };
+  for (const file of getOwnedFiles(manifest, outputRootDir)) {
+    if (expected.has(file)) continue;
+    const key = toKey(outputRootDir, file);
+    let content: string;
+    try {
+      content = fs.readFileSync(file, "utf-8");
+    } catch {
+      // already gone
+      delete manifest.files[key];
+      continue;
+    }
+    result.orphaned.push(file);
+    if (!prune) continue;
+    if (hashContent(content) !== manifest.files[key]) {
+      result.modified.push(file);
+      continue;
+    }
+    fs.unlinkSync(file);
+    delete manifest.files[key];
+    result.removed.push(file);
+  }
+
+  fs.mkdirSync(outputRootDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(outputRootDir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2) + "\n",
+    "utf-8"
+  );
+  return result;
+}
@@ -28,7 +28,6 @@ import {
   parseEntities,
   parseEntitiesForFile,
   buildTypeToSourceFileMap,
-  resolveModuleToFilePath,
   expandProjectWithLocalImports,
 } from "./parser";
 import {
@@ -97,7 +96,7 @@ export function generateMocks({
   include: string[];
   outputRootDir: string;
   baseDir?: string[];
-  mappings?: Record<string, string[]>;
+  mappings?: Record<string, string | string[]>;
   mappingProvider?: string;
   format?: "ts" | "js";
 }) {
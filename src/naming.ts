@@ -0,0 +1,250 @@
+import * as path from "path";
+import type { SourceFile } from "ts-morph";
+import type { ASTEntity, ASTPropertyValue } from "./ast-types";
+import { mapChildren, mapEntityValues } from "./analyzer";
+import { getExternalPackage } from "./external";
+import { getDeclaredNames } from "./parser";
+import { logger } from "./logger";
+
+// Entities are identified by their declaring file and name. When several of
+// the included files declare the same name, each of those declarations is
+// generated under a unique name instead: the nearest directories (or file name)
+// that tell them apart, e.g. src/billing/address.ts#Address -> BillingAddress.
+// Factories, graph nodes, traits and mapping paths use that name, and the type
+// is imported under it as an alias. Everything else keeps its declared name.
+
+export type EntityNaming = {
+  // Name the type `name` declared in `file` is generated under
+  nameOf(file: string, name: string): string;
+  // Declared name of every renamed type, by generated name
+  declaredNames: Map<string, string>;
+  // Apply the generated names to an entity of `file` and the types it references
+  rename(entity: ASTEntity, file: string): ASTEntity;
+};
+
+export function entityKey(file: string, name: string) {
+  return `${file}#${name}`;
+}
+
+function pascalCase(text: string) {
+  return text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join("");
+}
+
+// Identifier part for a property or trait name: "is-admin" -> IsAdmin. Empty
+// when the name has no identifier characters.
+export function memberSuffix(name: string) {
+  return name
+    .split(/[^A-Za-z0-9_$]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join("");
+}
+
+// Names of the companions emitted next to the MockX factory of an entity
+export function builderName(entityName: string) {
+  return `${entityName}Builder`;
+}
+
+export function builderMethodName(propertyName: string) {
+  const suffix = memberSuffix(propertyName);
+  return suffix ? `with${suffix}` : undefined;
+}
+
+// Entity name behind the MockX<Trait>() shortcut of a trait
+export function traitName(entityName: string, trait: string) {
+  const suffix = memberSuffix(trait);
+  return suffix ? `${entityName}${suffix}` : undefined;
+}
+
+function stripExtension(file: string) {
+  return file.replace(/\.(d\.)?(ts|tsx|js|jsx|mts|cts)$/, "");
+}
+
+// Names for the declarations of `files` sharing a name: path segments nearest
+// to the file are prepended until the names differ, skipping segments that
+// repeat the type name (address.ts, index.ts). `taken` are names in use.
+function disambiguate(
+  name: string,
+  files: string[],
+  projectRootDir: string,
+  taken: Set<string>
+) {
+  const segments = files.map((file) =>
+    path
+      .relative(projectRootDir, stripExtension(file))
+      .split(/[\\/]/)
+      .filter(
+        (segment) =>
+          segment &&
+          segment !== ".." &&
+          segment !== "index" &&
+          pascalCase(segment) !== name
+      )
+      .reverse()
+  );
+  const depth = Math.max(...segments.map((parts) => parts.length));
+  for (let count = 1; count <= depth; count++) {
+    const candidates = segments.map(
+      (parts) => pascalCase(parts.slice(0, count).reverse().join("-")) + name
+    );
+    if (
+      new Set(candidates).size === files.length &&
+      candidates.every(
+        (candidate) => /^[A-Za-z_$]/.test(candidate) && !taken.has(candidate)
+      )
+    )
+      return candidates;
+  }
+  return files.map((_, index) => `${name}${index + 1}`);
+}
+
+// `typeNames` sets the name of specific types, keyed by `<path>#<Type>` with
+// the path relative to the project root
+export function createEntityNaming(
+  sourceFiles: SourceFile[],
+  projectRootDir: string,
+  typeNames: Record<string, string> = {}
+): EntityNaming {
+  // Declared name -> declaring files
+  const declarations = new Map<string, string[]>();
+  for (const sourceFile of sourceFiles) {
+    for (const name of getDeclaredNames(sourceFile)) {
+      const files = declarations.get(name) ?? [];
+      files.push(sourceFile.getFilePath());
+      declarations.set(name, files);
+    }
+  }
+
+  const names = new Map<string, string>();
+  const taken = new Set(declarations.keys());
+  for (const [name, files] of declarations) {
+    if (files.length < 2) continue;
+    files.sort();
+    const unique = disambiguate(name, files, projectRootDir, taken);
+    files.forEach((file, index) => {
+      names.set(entityKey(file, name), unique[index]!);
+      taken.add(unique[index]!);
+    });
+  }
+  for (const [key, unique] of Object.entries(typeNames)) {
+    const separator = key.lastIndexOf("#");
+    const name = key.slice(separator + 1);
+    const file = declarations
+      .get(name)
+      ?.find(
+        (candidate) =>
+          separator > 0 &&
+          candidate === path.resolve(projectRootDir, key.slice(0, separator))
+      );
+    if (!file) {
+      logger.warn(
+        `Ignoring typeNames "${key}": no type ${name} declared in that file`
+      );
+    } else if (
+      taken.has(unique) &&
+      names.get(entityKey(file, name)) !== unique
+    ) {
+      logger.warn(
+        `Ignoring typeNames "${key}": ${unique} is already the name of another type`
+      );
+    } else {
+      names.set(entityKey(file, name), unique);
+      taken.add(unique);
+    }
+  }
+
+  const declaredNames = new Map<string, string>();
+  for (const [key, unique] of names) {
+    const name = key.slice(key.lastIndexOf("#") + 1);
+    if (unique !== name) declaredNames.set(unique, name);
+  }
+
+  function nameOf(file: string, name: string) {
+    const key = entityKey(file, name);
+    const unique = names.get(key);
+    if (unique) return unique;
+    // Package types sharing a name with a type of the project are prefixed
+    // with the package name (stripe Address -> StripeAddress)
+    const packageName = getExternalPackage(file);
+    if (!packageName || !declarations.has(name)) return name;
+    const prefixed = pascalCase(packageName) + name;
+    names.set(key, prefixed);
+    declaredNames.set(prefixed, name);
+    return prefixed;
+  }
+
+  // File declaring the type `name` referenced from `owner`: the resolved
+  // location, else the owner itself, else the only file declaring it
+  function fileOf(name: string, owner: string, location?: string) {
+    if (location) {
+      const files = declarations.get(name) ?? [];
+      return (
+        files.find(
+          (file) => stripExtension(file) === stripExtension(location)
+        ) ?? location
+      );
+    }
+    const files = declarations.get(name);
+    if (!files) return undefined;
+    if (files.includes(owner)) return owner;
+    return files.length === 1 ? files[0] : undefined;
+  }
+
+  // Rename the types of an inheritance expression: `import("./a").Base<T>` or `Base<T>`
+  function renameExpr(expr: string, owner: string, location?: string) {
+    if (expr.includes("import("))
+      return expr.replace(
+        /import\((["'])([^"']+)\1\)\.([A-Za-z_$][A-Za-z0-9_$]*)/g,
+        (match, quote, specifier, name) =>
+          `import(${quote}${specifier}${quote}).${nameOf(
+            fileOf(name, owner, specifier)!,
+            name
+          )}`
+      );
+    return expr.replace(/^[A-Za-z_$][A-Za-z0-9_$]*/, (name) => {
+      const file = fileOf(name, owner, location);
+      return file ? nameOf(file, name) : name;
+    });
+  }
+
+  function rename(entity: ASTEntity, file: string): ASTEntity {
+    const generics = new Set(
+      (entity.type === "instance" ? entity.generics || [] : []).map(
+        (generic) => generic.name
+      )
+    );
+    const renameReferences = (value: ASTPropertyValue): ASTPropertyValue => {
+      if (value.type !== "reference")
+        return mapChildren(value, renameReferences);
+      if (generics.has(value.value)) return value;
+      const target = fileOf(value.value, file, value.location?.file);
+      const name = target ? nameOf(target, value.value) : value.value;
+      return name === value.value ? value : { ...value, value: name };
+    };
+    const renamed = mapEntityValues(
+      { ...entity, name: nameOf(file, entity.name) },
+      renameReferences
+    );
+    if (renamed.type === "instance" && renamed.inherits) {
+      renamed.inherits = renamed.inherits.map((base) => ({
+        ...base,
+        expr: renameExpr(base.expr, file, base.location?.file),
+      }));
+    }
+    if (renamed.type === "instance" && renamed.derivedFrom) {
+      const { name, location } = renamed.derivedFrom;
+      const target = fileOf(name, file, location?.file);
+      if (target)
+        renamed.derivedFrom = { name: nameOf(target, name), location };
+    } else if (renamed.type === "alias") {
+      renamed.entities = renamed.entities.map((expr) => renameExpr(expr, file));
+    }
+    return renamed;
+  }
+
+  return { nameOf, declaredNames, rename };
+}
@@ -1,12 +1,14 @@
 import * as fs from "fs";
 import * as path from "path";
 import {
+  MappedTypeNode,
   Node,
   Project,
   SourceFile,
   Symbol as MorphSymbol,
   SyntaxKind,
   Type,
+  ts,
 } from "ts-morph";
 
 import type {
@@ -20,10 +22,19 @@ import type {
   ASTEntityPlaceholder,
   ASTEntityPrimitive,
   ASTEntityUnion,
+  ASTEnumMember,
+  ASTFunctionProperty,
   ASTGenericParameter,
+  ASTIndexSignatureProperty,
+  ASTIntersectionProperty,
+  ASTConditionalProperty,
+  ASTMappedProperty,
   ASTProperty,
   ASTPropertyValue,
+  ASTRecordProperty,
   ASTReferenceProperty,
+  ASTTupleElement,
+  ASTTupleProperty,
 } from "./ast-types";
 
 export function getLocation(node: Node) {
@@ -103,6 +114,8 @@ export function typeToAST(
   if (type.isBoolean()) return { type: "primitive", value: "boolean" };
   if (type.isNull()) return { type: "primitive", value: "null" };
   if (type.isUndefined()) return { type: "primitive", value: "undefined" };
+  // `void` only shows up as a return type, treat it as undefined
+  if (type.isVoid()) return { type: "primitive", value: "undefined" };
   if (type.isAny()) return { type: "primitive", value: "any" };
   // Handle the plain `object` type (no properties, not a literal) before unknown fallback
   if (type.isObject() && type.getProperties().length === 0) {
@@ -136,8 +149,60 @@ export function typeToAST(
     return { type: "primitive", value: "unknown" };
   }
 
+  // Conditional types still depending on type parameters; concrete ones are
+  // resolved by the checker to their branch
+  if (type.getFlags() & ts.TypeFlags.Conditional) {
+    return conditionalToAST(type, typeToFileMap, currentSourceFile);
+  }
+
   // Treat Date as a primitive
   const symbol = type.getSymbol();
+  // Partial<User>, Pick<User, "id">... as property types
+  if (isUtilityType(type)) {
+    return {
+      type: "object",
+      value: resolvedProperties(
+        type,
+        type.getAliasSymbol()!.getName() === "Readonly",
+        typeToFileMap,
+        currentSourceFile
+      ),
+    };
+  }
+  // Anonymous object types: Record<K, V> and index signatures
+  if (symbol?.getName() === "__type") {
+    // Function types ((x: Order) => Promise<Result>) are anonymous as well
+    const [sig] = type.getCallSignatures();
+    if (sig && type.getProperties().length === 0) {
+      return functionToAST(
+        sig.getReturnType(),
+        typeToFileMap,
+        currentSourceFile
+      );
+    }
+    const keyed = keyedTypeToAST(type, typeToFileMap, currentSourceFile);
+    if (keyed) return keyed;
+    // Object literal types and mapped types ({ [K in Keys]: V }, also with
+    // `as` key remapping), whose keys the checker resolves
+    const mappedNode = symbol.getDeclarations()[0];
+    const isMapped = Node.isMappedTypeNode(mappedNode);
+    if (type.getProperties().length) {
+      const readonlyToken = isMapped
+        ? mappedNode.getReadonlyToken()
+        : undefined;
+      return {
+        type: "object",
+        value: resolvedProperties(
+          type,
+          !!readonlyToken && readonlyToken.getKind() !== SyntaxKind.MinusToken,
+          typeToFileMap,
+          currentSourceFile
+        ),
+      };
+    }
+    if (isMapped)
+      return mappedToAST(mappedNode, type, typeToFileMap, currentSourceFile);
+  }
   // If the type is a named type (class/interface/type alias) and not a built-in, emit a reference
   if (symbol) {
     const name = symbol.getName();
@@ -182,6 +247,19 @@ export function typeToAST(
           }
         }
       }
+      // Barrels (`export * from "./address"`) only re-export the type; point at
+      // the file declaring it, which is the one with a mock file
+      const declarationFile = symbol
+        .getDeclarations()[0]
+        ?.getSourceFile()
+        .getFilePath();
+      if (
+        resolvedFilePath &&
+        declarationFile &&
+        declarationFile !== resolvedFilePath &&
+        currentSourceFile?.getProject().getSourceFile(declarationFile)
+      )
+        resolvedFilePath = declarationFile;
 
       if (resolvedFilePath) {
         result.location = {
@@ -195,8 +273,23 @@ export function typeToAST(
       return { type: "primitive", value: "date" };
     }
   }
+  const targetType = type.getTargetType ? type.getTargetType() : undefined;
+  if (
+    targetType &&
+    targetType.getSymbol &&
+    targetType.getSymbol()?.getName() === "Promise"
+  ) {
+    // Promise<T>, checked before objects so its members (then/catch) aren't expanded
+    const typeArgs = type.getTypeArguments();
+    return {
+      type: "promise",
+      value: typeArgs.map((t) =>
+        typeToAST(t, typeToFileMap, currentSourceFile)
+      ),
+    };
+  }
   if (type.isUnion()) {
-    const unionTypes = type.getUnionTypes();
+    const unionTypes = collapseEnumMembers(type.getUnionTypes());
     const unionValues = unionTypes.map((t) =>
       typeToAST(t, typeToFileMap, currentSourceFile)
     );
@@ -258,13 +351,7 @@ export function typeToAST(
         ),
       ],
     };
-  if (type.isTuple())
-    return {
-      type: "tuple",
-      value: type
-        .getTupleElements()
-        .map((t) => typeToAST(t, typeToFileMap, currentSourceFile)),
-    };
+  if (type.isTuple()) return tupleToAST(type, typeToFileMap, currentSourceFile);
   if (type.isObject() && type.getProperties().length > 0) {
     // Object literal
     const props = type
@@ -278,27 +365,12 @@ export function typeToAST(
   if (type.getCallSignatures().length > 0) {
     // Function type - guard against missing signature
     const sig = type.getCallSignatures()[0];
-    if (sig) {
-      return {
-        type: "function",
-        value: typeToAST(sig.getReturnType(), typeToFileMap, currentSourceFile),
-      };
-    }
-  }
-  const targetType = type.getTargetType ? type.getTargetType() : undefined;
-  if (
-    targetType &&
-    targetType.getSymbol &&
-    targetType.getSymbol()?.getName() === "Promise"
-  ) {
-    // Promise<T>
-    const typeArgs = type.getTypeArguments();
-    return {
-      type: "promise",
-      value: typeArgs.map((t) =>
-        typeToAST(t, typeToFileMap, currentSourceFile)
-      ),
-    };
+    if (sig)
+      return functionToAST(
+        sig.getReturnType(),
+        typeToFileMap,
+        currentSourceFile
+      );
   }
   if (type.isEnum()) {
     const values = type
@@ -314,15 +386,210 @@ export function typeToAST(
   return { type: "primitive", value: "unknown" };
 }
 
+// Unions like `Status | undefined` are flattened into the enum members by the
+// checker; fold complete member sets back into the enum so it's referenced as a whole
+function collapseEnumMembers(types: Type[]): Type[] {
+  const enumOf = (t: Type) => {
+    const decl = t.getSymbol()?.getValueDeclaration();
+    const parent =
+      decl && Node.isEnumMember(decl) ? decl.getParent() : undefined;
+    return parent && Node.isEnumDeclaration(parent) ? parent : undefined;
+  };
+  const out: Type[] = [];
+  const added = new Set<Node>();
+  for (const t of types) {
+    const enumDecl = enumOf(t);
+    if (enumDecl) {
+      const present = types.filter((u) => enumOf(u) === enumDecl).length;
+      if (present === enumDecl.getMembers().length) {
+        if (!added.has(enumDecl)) {
+          added.add(enumDecl);
+          out.push(enumDecl.getType());
+        }
+        continue;
+      }
+    }
+    out.push(t);
+  }
+  return out;
+}
+
+// Mapped type over keys the checker can't list (`{ [K in keyof T]: V }` with T
+// a type parameter)
+function mappedToAST(
+  node: MappedTypeNode,
+  type: Type,
+  typeToFileMap?: Map<string, string>,
+  currentSourceFile?: SourceFile
+): ASTMappedProperty {
+  const parameter = node.getTypeParameter();
+  const constraint = parameter.getConstraint();
+  const template = node.getTypeNode();
+  return {
+    type: "mapped",
+    parameter: parameter.getName(),
+    constraint: constraint
+      ? typeToAST(constraint.getType(), typeToFileMap, currentSourceFile)
+      : { type: "primitive", value: "unknown" },
+    value: template
+      ? typeToAST(template.getType(), typeToFileMap, currentSourceFile)
+      : { type: "primitive", value: "unknown" },
+    text: type.getText(currentSourceFile),
+  };
+}
+
+function conditionalToAST(
+  type: Type,
+  typeToFileMap?: Map<string, string>,
+  currentSourceFile?: SourceFile
+): ASTConditionalProperty {
+  const unknown: ASTPropertyValue = { type: "primitive", value: "unknown" };
+  const text = type.getText(currentSourceFile);
+  // The branches are only reachable through the declaration node
+  const { node } = (type.compilerType as ts.ConditionalType).root;
+  const declaration = currentSourceFile
+    ?.getProject()
+    .getSourceFile(node.getSourceFile().fileName)
+    ?.getDescendantAtStartWithWidth(node.getStart(), node.getWidth());
+  if (!Node.isConditionalTypeNode(declaration)) {
+    return {
+      type: "conditional",
+      checkType: unknown,
+      extendsType: unknown,
+      trueType: unknown,
+      falseType: unknown,
+      text,
+    };
+  }
+  const toAST = (typeNode: Node) =>
+    typeToAST(typeNode.getType(), typeToFileMap, currentSourceFile);
+  return {
+    type: "conditional",
+    checkType: toAST(declaration.getCheckType()),
+    extendsType: toAST(declaration.getExtendsType()),
+    trueType: toAST(declaration.getTrueType()),
+    falseType: toAST(declaration.getFalseType()),
+    text,
+  };
+}
+
+function functionToAST(
+  returnType: Type,
+  typeToFileMap?: Map<string, string>,
+  currentSourceFile?: SourceFile
+): ASTFunctionProperty {
+  return {
+    type: "function",
+    value: typeToAST(returnType, typeToFileMap, currentSourceFile),
+  };
+}
+
+function keyedTypeToAST(
+  type: Type,
+  typeToFileMap?: Map<string, string>,
+  currentSourceFile?: SourceFile
+):
+  | ASTRecordProperty
+  | ASTIndexSignatureProperty
+  | ASTIntersectionProperty
+  | undefined {
+  const aliasArgs = type.getAliasTypeArguments();
+  const [keyArg, valueArg] = aliasArgs;
+  if (type.getAliasSymbol()?.getName() === "Record" && keyArg && valueArg) {
+    // Finite key sets (literal unions, enums) are resolved by the checker into
+    // named properties, keep them as a constant union so every key is emitted
+    const keys = type.getProperties();
+    const keyType: ASTPropertyValue = keys.length
+      ? {
+          type: "union",
+          value: keys.map((k) => ({ type: "constant", value: k.getName() })),
+        }
+      : typeToAST(keyArg, typeToFileMap, currentSourceFile);
+    return {
+      type: "record",
+      value: [keyType, typeToAST(valueArg, typeToFileMap, currentSourceFile)],
+    };
+  }
+
+  const stringIndexType = type.getStringIndexType();
+  const indexType = stringIndexType ?? type.getNumberIndexType();
+  if (!indexType) return undefined;
+  const signature: ASTIndexSignatureProperty = {
+    type: "indexSignature",
+    keyType: {
+      type: "primitive",
+      value: stringIndexType ? "string" : "number",
+    },
+    valueType: typeToAST(indexType, typeToFileMap, currentSourceFile),
+  };
+  // Named members next to the index signature ({ total: number; [k: string]: number })
+  const props = type
+    .getProperties()
+    .map((symbol) =>
+      symbolToASTProperty(symbol, typeToFileMap, currentSourceFile)
+    )
+    .filter((p): p is ASTProperty => p !== undefined);
+  if (!props.length) return signature;
+  return {
+    type: "intersection",
+    value: [signature, { type: "object", value: props }],
+  };
+}
+
+function tupleToAST(
+  type: Type,
+  typeToFileMap?: Map<string, string>,
+  currentSourceFile?: SourceFile
+): ASTTupleProperty {
+  // ts-morph doesn't expose element flags, read them from the tuple target
+  const target = (type.compilerType as ts.TypeReference).target as ts.TupleType;
+  const flags = target.elementFlags ?? [];
+  const elements: ASTTupleElement[] = [];
+  const value = type.getTupleElements().map((t, i) => {
+    const flag = flags[i] ?? ts.ElementFlags.Required;
+    const optional = (flag & ts.ElementFlags.Optional) !== 0;
+    const rest = (flag & ts.ElementFlags.Variable) !== 0;
+    elements.push({
+      optional: optional || undefined,
+      rest: rest || undefined,
+    });
+    let astVal = typeToAST(t, typeToFileMap, currentSourceFile);
+    // Optional elements are typed as `T | undefined`, keep only T
+    if (optional && astVal.type === "union") {
+      const filtered = astVal.value.filter(
+        (v) => !(v.type === "primitive" && v.value === "undefined")
+      );
+      if (filtered.length === 1 && filtered[0] !== undefined) {
+        astVal = filtered[0];
+      } else {
+        astVal = { ...astVal, value: filtered };
+      }
+    }
+    return astVal;
+  });
+  return {
+    type: "tuple",
+    value,
+    elements,
+    readonly: target.readonly || undefined,
+  };
+}
+
+// Properties of a type produced by a utility or mapped type (`resolved`) take
+// their type from the checker rather than their declaration, so
+// Pick<Box<string>, "value"> is a string and Required<User> drops `undefined`
 export function symbolToASTProperty(
   symbol: MorphSymbol,
   typeToFileMap?: Map<string, string>,
-  currentSourceFile?: SourceFile
+  currentSourceFile?: SourceFile,
+  resolved?: { readonly: boolean }
 ): ASTProperty | undefined {
   const declarations = symbol.getDeclarations();
   const decl = declarations[0];
   const name = symbol.getName();
   const optional = symbol.isOptional?.() || false;
+  const isReadonly =
+    resolved?.readonly || (Node.isReadonlyable(decl) && decl.isReadonly());
   // No location for properties
   const location = undefined;
 
@@ -335,8 +602,13 @@ export function symbolToASTProperty(
 
   let value: ASTPropertyValue = { type: "primitive", value: "unknown" };
   try {
-    if (decl) {
-      let astVal = typeToAST(decl.getType(), typeToFileMap, currentSourceFile);
+    // Properties of mapped types have no declaration
+    const type =
+      resolved && currentSourceFile
+        ? symbol.getTypeAtLocation(currentSourceFile)
+        : decl?.getType();
+    if (type) {
+      let astVal = typeToAST(type, typeToFileMap, currentSourceFile);
       // If optional and union with unknown/undefined/null, unwrap
       if (optional && astVal.type === "union" && Array.isArray(astVal.value)) {
         // For optional properties, only remove 'null' and 'undefined' from the union
@@ -357,7 +629,102 @@ export function symbolToASTProperty(
       value = astVal;
     }
   } catch {}
-  return { name, optional, location, ...value };
+  return {
+    name,
+    optional,
+    location,
+    ...value,
+    ...(isReadonly ? { isReadonly } : {}),
+  };
+}
+
+// Utility types resolved to the properties they produce
+const UTILITY_TYPES = new Set([
+  "Partial",
+  "Required",
+  "Pick",
+  "Omit",
+  "Readonly",
+  "NonNullable",
+]);
+
+function isUtilityType(type: Type) {
+  return (
+    UTILITY_TYPES.has(type.getAliasSymbol()?.getName() ?? "") &&
+    type.isObject() &&
+    !type.getCallSignatures().length
+  );
+}
+
+// Properties of a type as the checker resolves them (see symbolToASTProperty)
+function resolvedProperties(
+  type: Type,
+  readonly: boolean,
+  typeToFileMap?: Map<string, string>,
+  currentSourceFile?: SourceFile
+) {
+  return type
+    .getProperties()
+    .map((symbol) =>
+      symbolToASTProperty(symbol, typeToFileMap, currentSourceFile, {
+        readonly,
+      })
+    )
+    .filter((prop): prop is ASTProperty => prop !== undefined);
+}
+
+// `type UserPreview = Pick<User, "id" | "name">` (also nested, as in
+// Partial<Omit<User, "id">>) becomes an instance with the resulting properties,
+// derived from the innermost named type
+function parseUtilityTypeAlias(
+  node: Node,
+  typeToFileMap?: Map<string, string>,
+  currentSourceFile?: SourceFile
+): ASTEntityInstance | undefined {
+  if (!Node.isTypeAliasDeclaration(node)) return undefined;
+  const type = node.getType();
+  let typeNode = node.getTypeNode();
+  if (
+    !Node.isTypeReference(typeNode) ||
+    !UTILITY_TYPES.has(typeNode.getTypeName().getText()) ||
+    !type.isObject() ||
+    type.getCallSignatures().length
+  )
+    return undefined;
+
+  let readonly = false;
+  while (
+    Node.isTypeReference(typeNode) &&
+    UTILITY_TYPES.has(typeNode.getTypeName().getText())
+  ) {
+    readonly ||= typeNode.getTypeName().getText() === "Readonly";
+    typeNode = typeNode.getTypeArguments()[0];
+  }
+  let derivedFrom: ASTEntityInstance["derivedFrom"];
+  if (Node.isTypeReference(typeNode)) {
+    const sourceType = typeNode.getType();
+    const symbol = sourceType.getAliasSymbol() ?? sourceType.getSymbol();
+    const declaration = symbol?.getDeclarations()[0];
+    if (symbol && declaration)
+      derivedFrom = {
+        name: symbol.getName(),
+        location: getLocation(declaration),
+      };
+  }
+  return {
+    name: node.getName(),
+    type: "instance",
+    instanceKind: "interface",
+    properties: resolvedProperties(
+      type,
+      readonly,
+      typeToFileMap,
+      currentSourceFile
+    ),
+    derivedFrom,
+    isExported: isExported(node),
+    location: getLocation(node),
+  };
 }
 
 export function parseClassOrInterface(
@@ -415,12 +782,21 @@ export function parseClassOrInterface(
 export function parseEnum(node: Node): ASTEntityEnum {
   // @ts-ignore
   const name = node.getName();
-  // @ts-ignore
-  const values = node.getMembers().map((m: any) => m.getName());
+  const members: ASTEnumMember[] = Node.isEnumDeclaration(node)
+    ? node.getMembers().map((m) => ({
+        // The symbol name is unquoted for members like `"with space" = 1`
+        name: m.getSymbol()?.getName() ?? m.getName(),
+        value: m.getValue(),
+      }))
+    : [];
+  const values = members
+    .map((m) => m.value)
+    .filter((v): v is string | number => v !== undefined);
   return {
     name,
     type: "enum",
     values,
+    members,
     isExported: isExported(node),
     location: getLocation(node),
   };
@@ -487,6 +863,44 @@ export function parseTypeAlias(
     };
     return entity;
   }
+  const derived = parseUtilityTypeAlias(node, typeToFileMap, currentSourceFile);
+  if (derived) return derived;
+  // Object literal and mapped type aliases, and conditional types the checker
+  // resolves to one, are generated like interfaces; literals as constants
+  const structure = typeToAST(type, typeToFileMap, currentSourceFile);
+  if (structure.type === "constant") {
+    const entity: ASTEntityConstant = {
+      name,
+      type: "constant",
+      value: structure,
+      isExported: isExportedVal,
+      location,
+    };
+    return entity;
+  }
+  // Mapped and conditional types over the alias's own type parameters
+  if (structure.type === "mapped" || structure.type === "conditional") {
+    const entity: ASTEntityPlaceholder = {
+      name,
+      type: "placeholder",
+      isExported: isExportedVal,
+      text: typeNode?.getText() ?? structure.text,
+      location,
+    };
+    return entity;
+  }
+  if (structure.type === "object") {
+    const entity: ASTEntityInstance = {
+      name,
+      type: "instance",
+      instanceKind: "interface",
+      properties: structure.value,
+      isExported: isExportedVal,
+      generics: getGenerics(node, typeToFileMap, currentSourceFile),
+      location,
+    };
+    return entity;
+  }
   // If the type is a reference to an unresolved type, emit a placeholder
   const symbol = type.getSymbol();
   if (!symbol) {
@@ -551,9 +965,37 @@ export function parseEntitiesForFile(
   return entities;
 }
 
-export function buildTypeToSourceFileMap(project: Project) {
+// Names of the entities a file declares, exported or not
+export function getDeclaredNames(sourceFile: SourceFile) {
+  const names: string[] = [];
+  for (const node of sourceFile.getStatements()) {
+    if (
+      Node.isClassDeclaration(node) ||
+      Node.isInterfaceDeclaration(node) ||
+      Node.isEnumDeclaration(node) ||
+      Node.isTypeAliasDeclaration(node)
+    ) {
+      const name = node.getName();
+      if (name) names.push(name);
+    } else if (Node.isVariableStatement(node)) {
+      for (const declaration of node.getDeclarations()) {
+        if (Node.isIdentifier(declaration.getNameNode()))
+          names.push(declaration.getName());
+      }
+    }
+  }
+  return names;
+}
+
+// Exported type name -> declaring file. `nameOf` maps declared names to the
+// names entities are generated under (see naming.ts).
+export function buildTypeToSourceFileMap(
+  project: Project,
+  sourceFiles = project.getSourceFiles(),
+  nameOf?: (file: string, name: string) => string
+) {
   const typeToFile = new Map<string, string>();
-  for (const sourceFile of project.getSourceFiles()) {
+  for (const sourceFile of sourceFiles) {
     for (const node of sourceFile.getStatements()) {
       let name;
       if (
@@ -565,7 +1007,8 @@ export function buildTypeToSourceFileMap(project: Project) {
         // @ts-ignore
         name = node.getName?.();
         if (name && isExported(node)) {
-          typeToFile.set(name, sourceFile.getFilePath());
+          const file = sourceFile.getFilePath();
+          typeToFile.set(nameOf ? nameOf(file, name) : name, file);
         }
       }
     }
@@ -573,48 +1016,88 @@ export function buildTypeToSourceFileMap(project: Project) {
   return typeToFile;
 }
 
-export function resolveModuleToFilePath(
-  fromDir: string,
-  moduleSpecifier: string
-) {
-  // Only handle relative paths here
-  const spec = moduleSpecifier;
-  const base = path.resolve(fromDir, spec);
-  const exts = [".ts", ".tsx", ".d.ts", ".js", ".jsx"];
+// Without an explicit moduleResolution, TypeScript picks "classic" for ES
+// module targets, which doesn't look into node_modules or package.json
+function getResolutionOptions(options: ts.CompilerOptions): ts.CompilerOptions {
+  if (options.moduleResolution !== undefined) return options;
+  const moduleResolution =
+    options.module === ts.ModuleKind.Node16
+      ? ts.ModuleResolutionKind.Node16
+      : options.module === ts.ModuleKind.NodeNext
+        ? ts.ModuleResolutionKind.NodeNext
+        : ts.ModuleResolutionKind.Node10;
+  return { ...options, moduleResolution };
+}
 
-  // If the spec already has an extension and points to a real file, accept it
-  try {
-    if (fs.existsSync(base) && fs.statSync(base).isFile()) return base;
-  } catch {}
+export type ExpandOptions = {
+  // Also follow imports of monorepo workspace packages, i.e. packages that
+  // resolve through a node_modules symlink to files outside node_modules
+  workspaces?: boolean;
+};
 
-  // Try appending extensions
-  for (const e of exts) {
-    const p = base + e;
-    try {
-      if (fs.existsSync(p) && fs.statSync(p).isFile()) return p;
-    } catch {}
-  }
+// Paths of the local modules a file imports or re-exports from. Specifiers are
+// resolved with the TypeScript module resolver and the project's compiler
+// options, so relative imports, tsconfig `paths`/`baseUrl` aliases (including
+// ones inherited through `extends`) and, with `workspaces`, workspace packages
+// are followed; other node_modules packages are not.
+function createImportResolver(
+  proj: Project,
+  { workspaces = false }: ExpandOptions = {}
+) {
+  const host = proj.getModuleResolutionHost();
+  const compilerOptions = getResolutionOptions(proj.getCompilerOptions());
+  const cache = ts.createModuleResolutionCache(
+    proj.getFileSystem().getCurrentDirectory(),
+    (fileName) => fileName,
+    compilerOptions
+  );
 
-  // Try index files inside the directory
-  try {
-    if (fs.existsSync(base) && fs.statSync(base).isDirectory()) {
-      for (const e of exts) {
-        const p = path.join(base, `index${e}`);
-        try {
-          if (fs.existsSync(p) && fs.statSync(p).isFile()) return p;
-        } catch {}
-      }
-    }
-  } catch {}
+  return (sf: SourceFile) => {
+    const filePath = sf.getFilePath();
+    const imports: string[] = [];
+    // Handle both import declarations and export-from declarations
+    const importDecls = sf.getImportDeclarations();
+    const exportDecls = sf.getExportDeclarations();
 
-  return undefined;
+    for (const decl of [...importDecls, ...exportDecls]) {
+      const moduleSpec = decl.getModuleSpecifierValue?.();
+      if (!moduleSpec) continue;
+      const { resolvedModule } = ts.resolveModuleName(
+        moduleSpec,
+        filePath,
+        compilerOptions,
+        host,
+        cache
+      );
+      if (!resolvedModule) continue;
+      const normalized = path.resolve(resolvedModule.resolvedFileName);
+      // Packages are not part of the project, except workspace packages: their
+      // node_modules entry is a symlink to sources outside node_modules
+      if (
+        resolvedModule.isExternalLibraryImport &&
+        (!workspaces || /[\\/]node_modules[\\/]/.test(normalized))
+      )
+        continue;
+      imports.push(normalized);
+    }
+    return imports;
+  };
 }
 
-export function expandProjectWithLocalImports(proj: Project) {
+// Add the files reachable through imports to the project (see
+// createImportResolver for what is followed). Starts from `roots` (all
+// project files by default) and returns the paths of the roots and every file
+// reached from them.
+export function expandProjectWithLocalImports(
+  proj: Project,
+  roots = proj.getSourceFiles(),
+  options: ExpandOptions = {}
+) {
   const seen = new Set<string>();
   const queue: string[] = [];
+  const resolveImports = createImportResolver(proj, options);
 
-  for (const sf of proj.getSourceFiles()) {
+  for (const sf of roots) {
     const fp = sf.getFilePath();
     seen.add(fp);
     queue.push(fp);
@@ -624,29 +1107,54 @@ export function expandProjectWithLocalImports(proj: Project) {
     const filePath = queue.shift()!;
     const sf = proj.getSourceFile(filePath);
     if (!sf) continue;
-    const fromDir = path.dirname(filePath);
-
-    // Handle both import declarations and export-from declarations
-    const importDecls = sf.getImportDeclarations();
-    const exportDecls = sf.getExportDeclarations();
 
-    for (const decl of [...importDecls, ...exportDecls]) {
-      const moduleSpec = decl.getModuleSpecifierValue?.();
-      if (!moduleSpec) continue;
-      // Only follow relative imports (./ or ../)
-      if (!moduleSpec.startsWith(".") && !moduleSpec.startsWith("/")) continue;
-      const resolved = resolveModuleToFilePath(fromDir, moduleSpec);
-      if (!resolved) continue;
-      // Normalize
-      const normalized = path.resolve(resolved);
+    for (const normalized of resolveImports(sf)) {
       if (seen.has(normalized)) continue;
       try {
-        proj.addSourceFileAtPath(normalized);
-        seen.add(normalized);
-        queue.push(normalized);
+        const added = proj.addSourceFileAtPath(normalized);
+        seen.add(added.getFilePath());
+        queue.push(added.getFilePath());
       } catch (err) {
         // ignore resolution errors
       }
     }
   }
+  return seen;
+}
+
+// Local files a source file imports, directly or through other local files, for
+// sources already in the project. Each file's imports are resolved once.
+export function createDependencyResolver(
+  proj: Project,
+  options: ExpandOptions = {}
+) {
+  const resolveImports = createImportResolver(proj, options);
+  const importsOf = new Map<string, string[]>();
+  function directImports(filePath: string) {
+    if (!importsOf.has(filePath)) {
+      const sf = proj.getSourceFile(filePath);
+      importsOf.set(
+        filePath,
+        (sf ? resolveImports(sf) : []).flatMap(
+          (dependency) => proj.getSourceFile(dependency)?.getFilePath() ?? []
+        )
+      );
+    }
+    return importsOf.get(filePath)!;
+  }
+
+  return (sourceFile: SourceFile) => {
+    const root: string = sourceFile.getFilePath();
+    const seen = new Set<string>([root]);
+    const queue = [root];
+    while (queue.length) {
+      for (const dependency of directImports(queue.shift()!)) {
+        if (seen.has(dependency)) continue;
+        seen.add(dependency);
+        queue.push(dependency);
+      }
+    }
+    seen.delete(root);
+    return Array.from(seen);
+  };
 }
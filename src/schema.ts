@@ -0,0 +1,369 @@
+import { traitName } from "./naming";
+
+// JSON Schema of typemockr.json. It is published as typemockr.schema.json for
+// editor completion and is also what loadConfig validates against.
+
+export type JsonSchema = {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+};
+
+const globs: JsonSchema = { type: "array", items: { type: "string" } };
+
+// Settings that shape the generated output; targets can override each of them
+const generationProperties: Record<string, JsonSchema> = {
+  include: {
+    ...globs,
+    description:
+      "Globs of the source files to generate mocks for; entries starting with `!` exclude",
+  },
+  baseDir: {
+    ...globs,
+    description:
+      "Directory prefixes stripped from source paths when computing output paths",
+  },
+  outDir: {
+    type: "string",
+    description: "Output directory for generated mocks (default: src/$mock)",
+  },
+  format: {
+    enum: ["ts", "js"],
+    description:
+      '"ts" emits .mock.ts files, "js" emits .mock.js files with .mock.d.ts declarations',
+  },
+  mappings: {
+    type: "object",
+    description:
+      'Property path pattern -> faker expression ("*.email": "faker.internet.email()"), or faker expression -> array of patterns',
+    additionalProperties: {
+      oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+    },
+  },
+  mappingProvider: {
+    type: "string",
+    description:
+      "Path to a module exporting a (type, path, context) => string | undefined mapping provider",
+  },
+  recordEntries: {
+    description:
+      "Entries generated for open-ended records and index signatures, fixed or a range",
+    oneOf: [
+      { type: "integer", minimum: 0 },
+      {
+        type: "object",
+        properties: {
+          min: { type: "integer", minimum: 0 },
+          max: { type: "integer", minimum: 0 },
+        },
+        required: ["min", "max"],
+        additionalProperties: false,
+      },
+    ],
+  },
+  functionStubs: {
+    enum: ["plain", "vi", "jest"],
+    description: "How function-typed properties are stubbed",
+  },
+  promiseMode: {
+    enum: ["resolve", "reject", "delay"],
+    description: "How Promise<T> values are emitted",
+  },
+  promiseDelay: {
+    type: "number",
+    minimum: 0,
+    description: 'Milliseconds before "delay" promises resolve (default: 10)',
+  },
+  seed: {
+    oneOf: [{ type: "integer" }, { type: "boolean" }],
+    description:
+      "true adds a per-call seed option and withSeed helper, a number also seeds every mock by default",
+  },
+  arrayMerge: {
+    enum: ["replace", "index"],
+    description:
+      "Whether arrays in overrides replace the generated array or merge item by item",
+  },
+  builders: {
+    type: "boolean",
+    description: "Emit a fluent builder per interface and class",
+  },
+  traits: {
+    type: "object",
+    description:
+      'Named override presets per type: { "User": { "admin": { "role": "admin" } } }',
+    additionalProperties: {
+      type: "object",
+      additionalProperties: { type: "object" },
+    },
+  },
+  externalTypes: {
+    type: "object",
+    description:
+      'How types from node_modules packages are mocked, per package name ("*" for the others)',
+    additionalProperties: {
+      oneOf: [
+        { type: "string", enum: ["generate", "inline"] },
+        {
+          type: "object",
+          properties: {
+            factories: {
+              type: "string",
+              description:
+                "Module exporting a Mock<Type> factory per type, relative to the project root",
+            },
+          },
+          required: ["factories"],
+          additionalProperties: false,
+        },
+      ],
+    },
+  },
+  typeNames: {
+    type: "object",
+    description:
+      'Names for types declared in several files, keyed by "<path>#<Type>": { "src/billing/address.ts#Address": "BillingAddress" }',
+    additionalProperties: { type: "string" },
+  },
+};
+
+export const configSchema: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://github.com/nicu/typemockr/raw/main/typemockr.schema.json",
+  title: "typemockr configuration",
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    ...generationProperties,
+    cache: {
+      type: "boolean",
+      description:
+        "Skip unchanged source files using node_modules/.cache/typemockr (default: true)",
+    },
+    prune: {
+      type: "boolean",
+      description: "Delete generated mocks whose source no longer exists",
+    },
+    workspaces: {
+      type: "boolean",
+      description:
+        "Follow imports of monorepo workspace packages and generate mocks for their types",
+    },
+    targets: {
+      type: "array",
+      description:
+        "Outputs generated in one run, each overriding the settings above",
+      items: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "Selects the target with --target",
+          },
+          ...generationProperties,
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+export type ValidationResult = {
+  errors: string[];
+  // Unknown keys; they are ignored
+  warnings: string[];
+};
+
+function typeOf(value: unknown) {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema["type"]) {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function formatPath(path: string) {
+  return path ? `"${path}"` : "the config";
+}
+
+function describe(value: unknown) {
+  const text = JSON.stringify(value);
+  return text && text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+// Edit distance counting adjacent transpositions as one edit, used to suggest
+// the intended key for a typo
+function distance(a: string, b: string) {
+  a = a.toLowerCase();
+  b = b.toLowerCase();
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i]![j] = Math.min(
+        d[i - 1]![j]! + 1,
+        d[i]![j - 1]! + 1,
+        d[i - 1]![j - 1]! + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+        d[i]![j] = Math.min(d[i]![j]!, d[i - 2]![j - 2]! + 1);
+    }
+  }
+  return d[a.length]![b.length]!;
+}
+
+function validate(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  result: ValidationResult
+) {
+  if (schema.oneOf) {
+    // Report the branch matching the value's type, so nested errors stay specific
+    const branch = schema.oneOf.find((option) =>
+      option.type ? matchesType(value, option.type) : true
+    );
+    if (!branch) {
+      const expected = schema.oneOf.map((option) => option.type).join(" or ");
+      result.errors.push(
+        `${formatPath(path)} must be ${expected}, got ${describe(value)}`
+      );
+      return;
+    }
+    validate(value, branch, path, result);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    result.errors.push(
+      `${formatPath(path)} must be one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}, got ${describe(value)}`
+    );
+    return;
+  }
+  if (schema.type && !matchesType(value, schema.type)) {
+    result.errors.push(
+      `${formatPath(path)} must be ${
+        schema.type === "array" || schema.type === "object" ? "an" : "a"
+      } ${schema.type}, got ${describe(value)}`
+    );
+    return;
+  }
+  if (
+    schema.minimum !== undefined &&
+    typeof value === "number" &&
+    value < schema.minimum
+  ) {
+    result.errors.push(
+      `${formatPath(path)} must be >= ${schema.minimum}, got ${value}`
+    );
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      validate(item, schema.items!, `${path}[${index}]`, result)
+    );
+  }
+  if (schema.type === "object" && typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const known = Object.keys(schema.properties ?? {});
+    for (const key of schema.required ?? []) {
+      if (!(key in object))
+        result.errors.push(`${formatPath(path)} is missing "${key}"`);
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const itemPath = path ? `${path}.${key}` : key;
+      const itemSchema =
+        schema.properties?.[key] ??
+        (typeof schema.additionalProperties === "object"
+          ? schema.additionalProperties
+          : undefined);
+      if (itemSchema) {
+        validate(item, itemSchema, itemPath, result);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = known.find(
+          (name) => distance(name, key) <= (key.length <= 3 ? 1 : 2)
+        );
+        result.warnings.push(
+          `Unknown key ${formatPath(itemPath)} is ignored${
+            suggestion ? ` (did you mean "${suggestion}"?)` : ""
+          }`
+        );
+      }
+    }
+  }
+}
+
+// Validate a parsed typemockr.json against the schema. Keys are reported with
+// their full path, e.g. `"recordEntries.max" must be >= 0, got -1`.
+export function validateConfig(value: unknown): ValidationResult {
+  const result: ValidationResult = { errors: [], warnings: [] };
+  validate(value, configSchema, "", result);
+  const config = value as Record<string, unknown> | null;
+  checkSettings(config, "", result);
+  if (Array.isArray(config?.targets)) {
+    config.targets.forEach((target, index) =>
+      checkSettings(target, `targets[${index}].`, result)
+    );
+  }
+  return result;
+}
+
+// Checks across generation settings the schema can't express, for the top
+// level and each target (`prefix` is the settings' path, e.g. "targets[0].")
+function checkSettings(
+  settings: Record<string, unknown> | null | undefined,
+  prefix: string,
+  result: ValidationResult
+) {
+  const entries = settings?.recordEntries as
+    { min?: unknown; max?: unknown } | undefined;
+  if (
+    typeof entries?.min === "number" &&
+    typeof entries.max === "number" &&
+    entries.min > entries.max
+  ) {
+    result.errors.push(
+      `"${prefix}recordEntries.min" (${entries.min}) must not exceed "${prefix}recordEntries.max" (${entries.max})`
+    );
+  }
+  // Trait names map to MockX<Trait>() shortcuts, so two names normalising to
+  // the same identifier ("is-admin", "isAdmin") would shadow each other
+  const traits = settings?.traits;
+  if (typeOf(traits) !== "object") return;
+  for (const [entity, table] of Object.entries(
+    traits as Record<string, unknown>
+  )) {
+    if (typeOf(table) !== "object") continue;
+    const seen = new Map<string, string>();
+    for (const name of Object.keys(table as Record<string, unknown>)) {
+      const shortcut = traitName(entity, name);
+      if (!shortcut) continue;
+      const other = seen.get(shortcut);
+      if (other !== undefined) {
+        result.errors.push(
+          `"${prefix}traits.${entity}": traits "${other}" and "${name}" both map to Mock${shortcut}()`
+        );
+      } else {
+        seen.set(shortcut, name);
+      }
+    }
+  }
+}
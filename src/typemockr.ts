@@ -1,20 +1,32 @@
 import * as fs from "fs";
 import * as path from "path";
 import {
+  InMemoryFileSystemHost,
   Node,
   Project,
   SourceFile,
   Symbol as MorphSymbol,
   SyntaxKind,
   Type,
+  ts,
 } from "ts-morph";
 import type {
   ASTEntity,
+  ASTEntityInstance,
   ASTProperty,
   ASTPropertyValue,
   ASTArrayProperty,
 } from "./ast-types";
-import { generate } from "./generation";
+import { generate, type GenerateOptions } from "./generation";
+import {
+  hashConfig,
+  hashContent,
+  loadCache,
+  saveCache,
+  type CacheEntry,
+} from "./cache";
+import type { MappingProvider } from "./generator";
+import { updateManifest } from "./manifest";
 import {
   getLocation,
   parseVariableStatement,
@@ -28,7 +40,7 @@ import {
   parseEntities,
   parseEntitiesForFile,
   buildTypeToSourceFileMap,
-  resolveModuleToFilePath,
+  createDependencyResolver,
   expandProjectWithLocalImports,
 } from "./parser";
 import {
@@ -37,6 +49,22 @@ import {
   annotateEntityWithRecursion,
   extractTypeNameFromImportish,
 } from "./analyzer";
+import { collectWarnings, logger } from "./logger";
+import {
+  collectExternalReferences,
+  getExternalMockPath,
+  getExternalPackage,
+  getExternalStrategy,
+  getTypeImportSpecifier,
+  inlineExternalReferences,
+  type ExternalTypes,
+} from "./external";
+import {
+  builderMethodName,
+  builderName,
+  createEntityNaming,
+  traitName,
+} from "./naming";
 
 function ensureDirSync(dir: string) {
   if (!fs.existsSync(dir)) {
@@ -66,7 +94,11 @@ function getOutputPathsForSourceFile({
   format?: "ts" | "js";
 }) {
   // Mirror structure under ./lib/output relative to the input project root
-  const relPath = path.relative(projectRootDir, sourceFile.getFilePath());
+  let relPath = path.relative(projectRootDir, sourceFile.getFilePath());
+  // Files outside the project root (workspace packages, alias targets in
+  // sibling directories) go to $workspace rather than escaping the output root
+  if (/^\.\.([\\/]|$)/.test(relPath))
+    relPath = path.join("$workspace", relPath.replace(/^(\.\.[\\/])+/, ""));
   const outDir = path.join(
     outputRootDir,
     path.dirname(configureOutputPath(relPath, baseDir))
@@ -84,50 +116,430 @@ function getOutputPathsForSourceFile({
   return { outDir, astPath, mockPath };
 }
 
-export function generateMocks({
-  projectRootDir,
-  include,
-  outputRootDir,
-  baseDir = [],
-  mappings,
-  mappingProvider,
-  format = "ts",
-}: {
+// Type parameters of a generic entity's factories, defaulting to any like the
+// TS output, the matching type arguments and the any arguments traits use
+function declareGenerics(entity: ASTEntity) {
+  const generics = entity.type === "instance" ? entity.generics || [] : [];
+  const list = (format: (name: string) => string) =>
+    generics.length
+      ? `<${generics.map((g) => format(g.name)).join(", ")}>`
+      : "";
+  return {
+    typeParams: list((name) => `${name} = any`),
+    typeArgs: list((name) => name),
+    anyArgs: list(() => "any"),
+  };
+}
+
+// Declarations for the builder class emitted into .mock.js files; `retType`
+// carries the entity's type arguments
+function declareBuilder(entity: ASTEntityInstance, retType: string) {
+  const className = builderName(entity.name);
+  const { typeParams, typeArgs } = declareGenerics(entity);
+  const properties = new Map<string, ASTProperty>();
+  for (const base of entity.inherits || []) {
+    for (const prop of base.properties || []) properties.set(prop.name, prop);
+  }
+  for (const prop of entity.properties) properties.set(prop.name, prop);
+
+  const lines = [`export class ${className}${typeParams} {`];
+  const usedMethods = new Set<string>();
+  for (const prop of Array.from(properties.values())) {
+    const method = builderMethodName(prop.name);
+    if (!method || usedMethods.has(method)) continue;
+    usedMethods.add(method);
+    const propType =
+      retType === "unknown"
+        ? "any"
+        : `${retType}[${JSON.stringify(prop.name)}]`;
+    const element = prop.type === "array" ? prop.value[0] : undefined;
+    const countable =
+      element?.type === "reference" &&
+      !(entity.generics || []).some(
+        (g) => g.name === element.value.replace(/^.*\./, "")
+      );
+    lines.push(
+      `  ${method}(value: ${propType}${countable ? " | number" : ""}): this;`
+    );
+  }
+  const optionalKeys = Array.from(properties.values())
+    .filter((prop) => prop.optional)
+    .map((prop) => JSON.stringify(prop.name));
+  if (optionalKeys.length) {
+    lines.push(`  without(key: ${optionalKeys.join(" | ")}): this;`);
+  }
+  lines.push(`  build(): ${retType};`);
+  lines.push(`}`);
+  lines.push(
+    `export function build${entity.name}${typeParams}(): ${className}${typeArgs};`
+  );
+  return lines;
+}
+
+// Write a generated file only when its content differs from what is on disk,
+// so unchanged mocks keep their mtime and don't retrigger test watchers.
+function writeIfChanged(filePath: string, content: string) {
+  try {
+    if (fs.readFileSync(filePath, "utf-8") === content) return false;
+  } catch {
+    // missing file: write it below
+  }
+  fs.writeFileSync(filePath, content, "utf-8");
+  return true;
+}
+
+export type GenerateMocksOptions = {
+  // Name of the config target these options come from, for messages
+  name?: string;
   projectRootDir: string;
   include: string[];
   outputRootDir: string;
   baseDir?: string[];
-  mappings?: Record<string, string[]>;
-  mappingProvider?: string;
+  mappings?: Record<string, string | string[]>;
+  mappingProvider?: string | MappingProvider;
   format?: "ts" | "js";
-}) {
-  const project = new Project({
-    tsConfigFilePath: path.join(projectRootDir, "tsconfig.json"),
-    skipAddingFilesFromTsConfig: true,
+  recordEntries?: GenerateOptions["recordEntries"];
+  functionStubs?: GenerateOptions["functionStubs"];
+  promiseMode?: GenerateOptions["promiseMode"];
+  promiseDelay?: number;
+  seed?: GenerateOptions["seed"];
+  arrayMerge?: GenerateOptions["arrayMerge"];
+  builders?: boolean;
+  traits?: GenerateOptions["traits"];
+  // Reuse the on-disk cache to skip unchanged files (default true)
+  cache?: boolean;
+  // Generate in memory only: nothing is written and the cache is not used
+  dryRun?: boolean;
+  // Source contents keyed by path (relative to projectRootDir). When set, the
+  // run uses an in-memory file system: nothing is read from or written to disk,
+  // and a mappingProvider has to be a function rather than a module path
+  sources?: Record<string, string>;
+  // Delete generated files (per the output root manifest) whose source is gone
+  prune?: boolean;
+  // Follow imports of monorepo workspace packages (see expandProjectWithLocalImports)
+  workspaces?: boolean;
+  // How types from node_modules packages are mocked, per package (see external.ts)
+  externalTypes?: ExternalTypes;
+  // Names for types declared in several files, keyed by `<path>#<Type>` (see naming.ts)
+  typeNames?: Record<string, string>;
+};
+
+// Source files and entity names that changed since the previous run
+export type GenerationChanges = {
+  files: Set<string>;
+  entities: Set<string>;
+};
+
+export type GenerationResult = {
+  // Mock files (and .mock.d.ts companions) whose content changed
+  written: string[];
+  unchanged: string[];
+  // Source files left alone because nothing they depend on changed
+  skipped: string[];
+  // Entity names declared by each processed source file
+  entitiesByFile: Map<string, string[]>;
+  // Content of every file generated in this run, keyed by output path
+  outputs: Map<string, string>;
+  // Previously generated files no source produces anymore, and the ones deleted
+  orphaned: string[];
+  pruned: string[];
+  // Warnings raised during the run (they are logged as well)
+  warnings: string[];
+};
+
+// Generate the mocks for one set of options. Returns the generated code per
+// output path in `outputs`; files are written unless `dryRun` or `sources` is set.
+export function generateMocks(options: GenerateMocksOptions) {
+  const project = createProject(options);
+  return generateForProject(project, options);
+}
+
+type ProjectOptions = Pick<
+  GenerateMocksOptions,
+  "projectRootDir" | "include" | "sources" | "workspaces"
+>;
+
+// A Project using the tsconfig.json of the project root, on disk or, with
+// `sources`, in an in-memory file system holding only those files
+function newProject({ projectRootDir, sources }: ProjectOptions) {
+  const tsConfigFilePath = path.join(projectRootDir, "tsconfig.json");
+  if (!sources)
+    return new Project({ tsConfigFilePath, skipAddingFilesFromTsConfig: true });
+  const fileSystem = new InMemoryFileSystemHost();
+  for (const [file, content] of Object.entries(sources))
+    fileSystem.writeFileSync(path.resolve(projectRootDir, file), content);
+  return new Project({
+    fileSystem,
+    ...(fileSystem.fileExistsSync(tsConfigFilePath)
+      ? { tsConfigFilePath, skipAddingFilesFromTsConfig: true }
+      : { compilerOptions: { strict: true, target: ts.ScriptTarget.ES2022 } }),
   });
-  // Add initial include paths
-  project.addSourceFilesAtPaths(include);
+}
 
-  expandProjectWithLocalImports(project);
+export function createProject(options: ProjectOptions) {
+  const project = newProject(options);
+  getTargetFiles(project, options);
+  return project;
+}
 
-  const typeToFileMap = buildTypeToSourceFileMap(project);
+// One Project shared by several targets, so files included by more than one
+// target are parsed once. Returns the source files (include matches and their
+// local imports) of each target, in order.
+export function createTargetsProject(targets: GenerateMocksOptions[]) {
+  const project = newProject(targets[0]!);
+  // Globs are added per target so one target's `!` exclusions don't apply to another
+  const files = targets.map((target) => getTargetFiles(project, target));
+  return { project, files };
+}
 
-  // 1) Build a global view of all entities and references
-  const allEntities = parseEntities(project, typeToFileMap);
+// The files of a target in a shared project; adds new include matches. Include
+// globs are relative to the project root.
+export function getTargetFiles(
+  project: Project,
+  { projectRootDir, include, workspaces }: ProjectOptions
+) {
+  const roots = project.addSourceFilesAtPaths(
+    include.map((pattern) =>
+      pattern.startsWith("!")
+        ? `!${path.resolve(projectRootDir, pattern.slice(1))}`
+        : path.resolve(projectRootDir, pattern)
+    )
+  );
+  const reached = expandProjectWithLocalImports(project, roots, {
+    workspaces,
+  });
+  return project
+    .getSourceFiles()
+    .filter((sourceFile) => reached.has(sourceFile.getFilePath()));
+}
 
-  // Map entity name -> entity for quick lookup
-  const entityByName = new Map<string, ASTEntity>();
-  for (const e of allEntities) entityByName.set(e.name, e);
+// Generate every target from one shared Project
+export function generateTargets(targets: GenerateMocksOptions[]) {
+  const { project, files } = createTargetsProject(targets);
+  return targets.map((target, index) =>
+    generateForProject(project, target, undefined, files[index])
+  );
+}
 
-  // Build adjacency: entity -> referenced entity names
-  const adj = buildAdjacency(allEntities);
+// Generate mocks for the files of an already populated project, or only for
+// `files` when the project is shared between targets. With `changes` (or,
+// without them, the changes detected against the on-disk cache), only the
+// changed files and the files declaring entities that (transitively) reference
+// a changed entity are regenerated.
+export function generateForProject(
+  project: Project,
+  options: GenerateMocksOptions,
+  changes?: GenerationChanges,
+  files = project.getSourceFiles()
+): GenerationResult {
+  const [result, warnings] = collectWarnings(() =>
+    runGeneration(project, options, changes, files)
+  );
+  result.warnings = warnings;
+  return result;
+}
 
-  // Compute SCCs to detect cycles
-  const sccs = computeSCC(adj);
-  const nodeToScc = new Map<string, Set<string>>();
-  for (const comp of sccs) {
-    const compSet = new Set(comp);
-    for (const n of comp) nodeToScc.set(n, compSet);
+function runGeneration(
+  project: Project,
+  options: GenerateMocksOptions,
+  changes: GenerationChanges | undefined,
+  files: SourceFile[]
+): GenerationResult {
+  const {
+    projectRootDir,
+    outputRootDir,
+    baseDir = [],
+    mappings,
+    format = "ts",
+    recordEntries,
+    functionStubs,
+    promiseMode,
+    promiseDelay,
+    seed,
+    arrayMerge,
+    builders,
+    traits,
+    externalTypes,
+    typeNames,
+    sources,
+    workspaces,
+    prune = false,
+  } = options;
+  // In-memory runs never write
+  const dryRun = options.dryRun || !!sources;
+  let { mappingProvider } = options;
+  if (sources && typeof mappingProvider === "string") {
+    logger.warn(
+      `Ignoring mappingProvider "${mappingProvider}": in-memory generation only accepts a provider function`
+    );
+    mappingProvider = undefined;
+  }
+  const result: GenerationResult = {
+    written: [],
+    unchanged: [],
+    skipped: [],
+    entitiesByFile: new Map(),
+    outputs: new Map(),
+    orphaned: [],
+    pruned: [],
+    warnings: [],
+  };
+  // Output paths that still correspond to a source
+  const expected = new Set<string>();
+
+  // Record every generated file; dry runs keep them in memory only
+  function emit(filePath: string, content: string) {
+    result.outputs.set(filePath, content);
+    if (dryRun) return;
+    ensureDirSync(path.dirname(filePath));
+    (writeIfChanged(filePath, content)
+      ? result.written
+      : result.unchanged
+    ).push(filePath);
+  }
+
+  // Parsing resolves declared names; everything downstream works with the
+  // unique names of the naming, so same-named types of different files don't mix
+  const parseTypeToFileMap = buildTypeToSourceFileMap(project, files);
+  const naming = createEntityNaming(files, projectRootDir, typeNames);
+  const typeToFileMap = buildTypeToSourceFileMap(project, files, naming.nameOf);
+
+  const sourceFiles = new Map<string, SourceFile>();
+  for (const sourceFile of files)
+    sourceFiles.set(sourceFile.getFilePath(), sourceFile);
+
+  // Entities of node_modules declaration files, parsed when first referenced
+  const externalParsed = new Map<string, ASTEntity[]>();
+  function externalEntity(name: string, file: string) {
+    if (!externalParsed.has(file)) {
+      const sourceFile = project.getSourceFile(file);
+      externalParsed.set(
+        file,
+        sourceFile
+          ? parseEntitiesForFile(
+              sourceFile,
+              new Map([
+                ...parseTypeToFileMap,
+                ...buildTypeToSourceFileMap(project, [sourceFile]),
+              ])
+            ).map((entity) => naming.rename(entity, file))
+          : []
+      );
+    }
+    // Accepts the declared or the generated name
+    const unique = naming.nameOf(file, name);
+    return externalParsed.get(file)!.find((entity) => entity.name === unique);
+  }
+  const missingExternals = new Set<string>();
+  function warnMissingExternal(name: string, packageName: string) {
+    const key = `${packageName}/${name}`;
+    if (missingExternals.has(key)) return;
+    missingExternals.add(key);
+    logger.warn(
+      `No declaration of ${name} found in ${packageName}; it is mocked as {}`
+    );
+  }
+  const withInlinedTypes = (entity: ASTEntity) =>
+    inlineExternalReferences(
+      entity,
+      externalTypes,
+      externalEntity,
+      warnMissingExternal
+    );
+
+  // Entities are parsed per file on demand: files the cache proves unchanged
+  // contribute their recorded graph edges without being parsed at all
+  const parsed = new Map<string, ASTEntity[]>();
+  function entitiesOf(sourceFile: SourceFile) {
+    const filePath = sourceFile.getFilePath();
+    if (!parsed.has(filePath))
+      parsed.set(
+        filePath,
+        parseEntitiesForFile(sourceFile, parseTypeToFileMap)
+          .map((entity) => naming.rename(entity, filePath))
+          .map(withInlinedTypes)
+      );
+    return parsed.get(filePath)!;
+  }
+
+  const cache =
+    options.cache === false || dryRun
+      ? undefined
+      : loadCache(
+          projectRootDir,
+          outputRootDir,
+          hashConfig(
+            {
+              ...options,
+              projectRootDir: undefined,
+              names: Array.from(naming.declaredNames),
+            },
+            mappingProvider
+          )
+        );
+  const hashes = new Map<string, string>();
+  for (const [filePath, sourceFile] of sourceFiles)
+    hashes.set(filePath, hashContent(sourceFile.getFullText()));
+
+  // Without explicit changes, everything the cache can't vouch for is changed:
+  // new or edited sources, sources with missing outputs and removed sources
+  if (cache && !changes) {
+    changes = { files: new Set(), entities: new Set() };
+    for (const [filePath, hash] of hashes) {
+      const entry = cache.files[filePath];
+      if (
+        entry?.hash === hash &&
+        entry.outputs.every((output) => fs.existsSync(output))
+      )
+        continue;
+      changes.files.add(filePath);
+      for (const name of Object.keys(entry?.edges || {}))
+        changes.entities.add(name);
+    }
+    for (const [filePath, entry] of Object.entries(cache.files)) {
+      if (sourceFiles.has(filePath)) continue;
+      for (const name of Object.keys(entry.edges)) changes.entities.add(name);
+      delete cache.files[filePath];
+    }
+  }
+
+  // 1) Build a global view of all entities and references
+  const edgesByFile = new Map<string, Map<string, Set<string>>>();
+  const dependenciesByFile = new Map<string, string[]>();
+  const dependenciesOf = createDependencyResolver(project, { workspaces });
+  for (const [filePath, sourceFile] of sourceFiles) {
+    const entry = cache?.files[filePath];
+    if (entry && changes && !changes.files.has(filePath)) {
+      dependenciesByFile.set(filePath, entry.dependencies);
+      edgesByFile.set(
+        filePath,
+        new Map(
+          Object.entries(entry.edges).map(([name, refs]) => [
+            name,
+            new Set(refs),
+          ])
+        )
+      );
+    } else {
+      // Build adjacency: entity -> referenced entity names
+      dependenciesByFile.set(filePath, dependenciesOf(sourceFile));
+      edgesByFile.set(filePath, buildAdjacency(entitiesOf(sourceFile)));
+    }
+  }
+  const adj = new Map<string, Set<string>>();
+  for (const edges of edgesByFile.values()) {
+    for (const [name, refs] of edges) {
+      if (!adj.has(name)) adj.set(name, new Set());
+      for (const ref of refs) adj.get(name)!.add(ref);
+    }
+  }
+
+  for (const name of Object.keys(traits || {})) {
+    if (!adj.has(name)) {
+      logger.warn(
+        `Ignoring traits for ${name}: no such type in the included files`
+      );
+    }
   }
 
   // Precompute reachability with memoization
@@ -152,12 +564,299 @@ export function generateMocks({
     return visited;
   }
 
+  // Restrict the run to files affected by the changes: entities declared in the
+  // changed files (before and after the change), every entity reaching them and
+  // files importing a changed or removed file
+  let affectedFiles: Set<string> | undefined;
+  if (changes) {
+    const seeds = new Set(changes.entities);
+    for (const filePath of changes.files) {
+      for (const name of edgesByFile.get(filePath)?.keys() || [])
+        seeds.add(name);
+    }
+    affectedFiles = new Set(changes.files);
+    for (const [filePath, edges] of edgesByFile) {
+      for (const name of edges.keys()) {
+        const reach = reachableFrom(name);
+        if (seeds.has(name) || Array.from(seeds).some((n) => reach.has(n)))
+          affectedFiles.add(filePath);
+      }
+    }
+    const changedFiles = changes.files;
+    for (const [filePath, dependencies] of dependenciesByFile) {
+      if (
+        dependencies.some(
+          (dependency) =>
+            changedFiles.has(dependency) || !sourceFiles.has(dependency)
+        )
+      )
+        affectedFiles.add(filePath);
+    }
+  }
+
+  // External types referenced by the files being regenerated, keyed by
+  // package/name. Packages using the "generate" strategy get one mock file per
+  // type, including the external types those reference in turn.
+  const externals = new Map<
+    string,
+    { packageName: string; entity: ASTEntity }
+  >();
+  const externalsByFile = new Map<string, Set<string>>();
+  function collectExternals(entity: ASTEntity, into: Set<string>) {
+    for (const { name, file } of collectExternalReferences(entity)) {
+      const packageName = getExternalPackage(file)!;
+      if (getExternalStrategy(externalTypes, packageName) !== "generate")
+        continue;
+      const key = `${packageName}/${name}`;
+      if (into.has(key)) continue;
+      if (!externals.has(key)) {
+        const external = externalEntity(name, file);
+        if (!external) {
+          warnMissingExternal(name, packageName);
+          continue;
+        }
+        externals.set(key, { packageName, entity: withInlinedTypes(external) });
+      }
+      into.add(key);
+      collectExternals(externals.get(key)!.entity, into);
+    }
+  }
+  for (const [filePath, sourceFile] of sourceFiles) {
+    if (affectedFiles && !affectedFiles.has(filePath)) continue;
+    const keys = new Set<string>();
+    for (const entity of entitiesOf(sourceFile)) collectExternals(entity, keys);
+    externalsByFile.set(filePath, keys);
+  }
+  if (externals.size) {
+    const externalEdges = buildAdjacency(
+      Array.from(externals.values(), ({ entity }) => entity)
+    );
+    for (const [name, refs] of externalEdges) {
+      if (!adj.has(name)) adj.set(name, new Set());
+      for (const ref of refs) adj.get(name)!.add(ref);
+    }
+    reachMemo.clear();
+  }
+
+  // Compute SCCs to detect cycles
+  const sccs = computeSCC(adj);
+  const nodeToScc = new Map<string, Set<string>>();
+  for (const comp of sccs) {
+    const compSet = new Set(comp);
+    for (const n of comp) nodeToScc.set(n, compSet);
+  }
+
+  // Mapped and conditional types generated without being resolved, reported once
+  const unresolved: Array<{ path: string; text: string }> = [];
+
+  // Generate the mock file (and, for JS output, its .mock.d.ts) of a list of
+  // entities; returns the paths of the files emitted
+  function writeMocks(entities: ASTEntity[], mockPath: string) {
+    const outputs: string[] = [];
+    // Generic aliases over mapped or conditional types have no shape to mock
+    // until instantiated: they get no factory and are reported instead
+    const astNodes = entities.filter((e) => {
+      if (e.type !== "placeholder" || e.text === undefined) return true;
+      unresolved.push({ path: e.name, text: e.text });
+      return false;
+    });
+    // Generate mocks for the AST nodes, passing the typeToFileMap
+    const mockCode = generate(
+      projectRootDir,
+      outputRootDir,
+      baseDir,
+      astNodes,
+      format === "ts",
+      true,
+      mockPath,
+      typeToFileMap,
+      mappings,
+      mappingProvider,
+      format,
+      {
+        recordEntries,
+        functionStubs,
+        promiseMode,
+        promiseDelay,
+        seed,
+        arrayMerge,
+        builders,
+        traits,
+        externalTypes,
+        declaredNames: naming.declaredNames,
+        unresolved,
+        fileExists: sources
+          ? (filePath) => project.getFileSystem().fileExistsSync(filePath)
+          : undefined,
+      }
+    );
+    emit(mockPath, mockCode);
+    outputs.push(mockPath);
+
+    if (format === "js") {
+      const dtsPath = mockPath.replace(/\.mock\.js$/, ".mock.d.ts");
+      const dtsDir = path.dirname(dtsPath);
+      const importMap = new Map<string, string[]>(); // module -> [names]
+
+      for (const e of astNodes) {
+        const name = e.name;
+        // Prefer explicit location, fallback to global type map
+        const orig = (e as any).location?.file ?? typeToFileMap.get(name);
+        if (!orig) continue;
+        const rel = getTypeImportSpecifier(dtsDir, orig);
+        const arr = importMap.get(rel) || [];
+        if (!arr.includes(name)) arr.push(name);
+        importMap.set(rel, arr);
+      }
+
+      const lines: string[] = [];
+
+      for (const [mod, names] of importMap.entries()) {
+        const specifiers = names.map((name) => {
+          const declared = naming.declaredNames.get(name);
+          return declared ? `${declared} as ${name}` : name;
+        });
+        lines.push(`import type { ${specifiers.join(", ")} } from '${mod}';`);
+      }
+      if (lines.length) lines.push("");
+
+      // Mirrors the DeepPartial emitted into the generated .mock.js runtime
+      const arrayType =
+        arrayMerge === "index"
+          ? `T extends Array<infer U> ? Array<DeepPartial<U>>`
+          : `T extends Array<any> ? T`;
+      lines.push(
+        `type DeepPartial<T> = T extends Date | RegExp | Map<any, any> | Set<any> | Promise<any> | ((...args: any[]) => any)`,
+        `  ? T`,
+        `  : ${arrayType}`,
+        `  : T extends object`,
+        `  ? { [K in keyof T]?: DeepPartial<T[K]> }`,
+        `  : T;`,
+        ``
+      );
+      if (seed !== undefined) {
+        lines.push(
+          `export function withSeed<T>(seed: number, generate: () => T): T;`
+        );
+      }
+      const optionsParam = `options?: { seed?: number }`;
+
+      for (const e of astNodes) {
+        const name = e.name;
+        const funcName = `Mock${name}`;
+        // Determine return type: if we imported it, use the type name; otherwise fallback to unknown
+        const hasImport = Array.from(importMap.values()).some((arr) =>
+          arr.includes(name)
+        );
+        const { typeParams, typeArgs, anyArgs } = declareGenerics(e);
+        const retType = hasImport ? `${name}${typeArgs}` : "unknown";
+        // Object factories deep-merge their overrides
+        const overridesType =
+          e.type === "instance" || e.type === "alias"
+            ? `DeepPartial<${retType}>`
+            : `Partial<${retType}>`;
+        // Generic factories take a mock factory per type parameter first
+        const mockParams = (e.type === "instance" ? e.generics || [] : []).map(
+          (g) => `mock${g.name}?: () => ${g.name}, `
+        );
+        let params = `${mockParams.join("")}overrides?: ${overridesType}`;
+        if (seed !== undefined) {
+          // Factories without overrides take the seed options as their only parameter
+          params =
+            e.type === "enum" || e.type === "constant" || e.type === "primitive"
+              ? optionsParam
+              : `${params}, ${optionsParam}`;
+        }
+        lines.push(
+          `export function ${funcName}${typeParams}(${params}): ${retType};`
+        );
+
+        const builder = builderName(name);
+        if (
+          builders &&
+          e.type === "instance" &&
+          !astNodes.some((n) => n.name === builder) &&
+          !typeToFileMap.has(builder)
+        ) {
+          lines.push(...declareBuilder(e, retType));
+        }
+
+        const entityTraits = Object.keys(traits?.[name] || {});
+        if (
+          entityTraits.length &&
+          (e.type === "instance" || e.type === "alias")
+        ) {
+          const traitType = `${name}Trait`;
+          // Traits mock generic entities with any for each type argument
+          const traitRet = hasImport ? `${name}${anyArgs}` : "unknown";
+          const traitOverrides = `DeepPartial<${traitRet}>`;
+          lines.push(
+            `export type ${traitType} = ${entityTraits
+              .map((t) => JSON.stringify(t))
+              .join(" | ")};`,
+            `export namespace ${funcName} {`,
+            `  function trait(trait: ${traitType} | ${traitType}[], overrides?: ${traitOverrides}): ${traitRet};`,
+            `}`
+          );
+          for (const t of entityTraits) {
+            const helperName = traitName(name, t);
+            if (!helperName || astNodes.some((n) => n.name === helperName))
+              continue;
+            lines.push(
+              `export function Mock${helperName}(overrides?: ${traitOverrides}): ${traitRet};`
+            );
+          }
+        }
+
+        // Companion list factory, skipped when another entity owns the name
+        const listName = `${name}List`;
+        if (
+          astNodes.some((n) => n.name === listName) ||
+          typeToFileMap.has(listName)
+        )
+          continue;
+        const listParams =
+          e.type === "enum" || e.type === "constant" || e.type === "primitive"
+            ? `count: number`
+            : `count: number, overrides?: ${overridesType} | ((index: number) => ${overridesType})`;
+        lines.push(
+          `export function ${funcName}List${typeParams}(${listParams}): ${retType}[];`
+        );
+      }
+
+      emit(dtsPath, lines.join("\n"));
+      outputs.push(dtsPath);
+    }
+    return outputs;
+  }
+
   // 2) Process per-file, annotating nodes with recursion metadata from global graph
   const processed = new Set();
-  for (const sourceFile of project.getSourceFiles()) {
+  for (const sourceFile of sourceFiles.values()) {
     const filePath = sourceFile.getFilePath();
     if (processed.has(filePath)) continue;
     processed.add(filePath);
+    if (affectedFiles && !affectedFiles.has(filePath)) {
+      result.skipped.push(filePath);
+      // Outputs of skipped files stay valid
+      const { mockPath } = getOutputPathsForSourceFile({
+        sourceFile,
+        projectRootDir,
+        outputRootDir,
+        baseDir,
+        format,
+      });
+      for (const output of cache?.files[filePath]?.outputs ?? [
+        mockPath,
+        mockPath.replace(/\.mock\.js$/, ".mock.d.ts"),
+      ])
+        expected.add(output);
+      result.entitiesByFile.set(
+        filePath,
+        Array.from(edgesByFile.get(filePath)?.keys() || [])
+      );
+      continue;
+    }
     const { astPath, mockPath } = getOutputPathsForSourceFile({
       sourceFile,
       projectRootDir,
@@ -165,7 +864,23 @@ export function generateMocks({
       baseDir,
       format,
     });
-    let astNodes = parseEntitiesForFile(sourceFile, typeToFileMap);
+    let astNodes = entitiesOf(sourceFile);
+    result.entitiesByFile.set(
+      filePath,
+      astNodes.map((e) => e.name)
+    );
+    const cacheEntry: CacheEntry | undefined = cache && {
+      hash: hashes.get(filePath)!,
+      edges: Object.fromEntries(
+        Array.from(edgesByFile.get(filePath) || [], ([name, refs]) => [
+          name,
+          Array.from(refs),
+        ])
+      ),
+      dependencies: dependenciesByFile.get(filePath) ?? [],
+      outputs: [],
+    };
+    if (cache && cacheEntry) cache.files[filePath] = cacheEntry;
     if (!astNodes.length) continue;
 
     // Annotate this file's entities with recursion metadata
@@ -173,38 +888,30 @@ export function generateMocks({
       annotateEntityWithRecursion(e, adj, nodeToScc, reachableFrom)
     );
 
-    // Ensure output directories for astPath and mockPath exist
-    ensureDirSync(path.dirname(astPath));
-    ensureDirSync(path.dirname(mockPath));
-
     // Populate inherits[].properties transitively so generators can use them
     // Build a per-file map of entityName -> entity for quick resolution
     const fileEntityMap = new Map<string, ASTEntity>();
     for (const e of astNodes) fileEntityMap.set(e.name, e);
 
-    // Helper: resolve base entity by name and optional location across allEntities or fileEntityMap
+    // Helper: resolve base entity by name and optional location, parsing the
+    // declaring file on demand
     function resolveBaseEntity(
       expr: string,
       loc?: { file: string; line: number }
     ) {
       const baseName = extractTypeNameFromImportish(expr);
+      const findIn = (file: string | undefined) => {
+        const sf = file ? sourceFiles.get(file) : undefined;
+        return sf ? entitiesOf(sf).find((e) => e.name === baseName) : undefined;
+      };
       // Prefer exact location match when provided
-      if (loc) {
-        for (const e of allEntities) {
-          if (
-            e.name === baseName &&
-            e.location?.file &&
-            path.resolve(e.location.file) === path.resolve(loc.file)
-          )
-            return e as any;
-        }
-      }
+      const atLocation = loc && findIn(loc.file);
+      if (atLocation) return atLocation as any;
       // Prefer current file
       if (fileEntityMap.has(baseName))
         return fileEntityMap.get(baseName) as any;
-      // Fallback to global entityByName
-      if (entityByName.has(baseName)) return entityByName.get(baseName) as any;
-      return undefined;
+      // Fallback to the file exporting a type of that name
+      return findIn(typeToFileMap.get(baseName)) as any;
     }
 
     // Collect properties transitively with cycle protection
@@ -257,67 +964,71 @@ export function generateMocks({
     // Write annotated AST
     // fs.writeFileSync(astPath, JSON.stringify(astNodes, null, 2), "utf-8");
 
-    // Generate mocks for this file's AST nodes, passing the typeToFileMap
-    const mockCode = generate(
-      projectRootDir,
-      outputRootDir,
-      baseDir,
-      astNodes,
-      format === "ts",
-      true,
-      mockPath,
-      typeToFileMap,
-      mappings,
-      mappingProvider,
-      format
-    );
-    fs.writeFileSync(mockPath, mockCode, "utf-8");
-
-    if (format === "js") {
-      try {
-        const dtsPath = mockPath.replace(/\.mock\.js$/, ".mock.d.ts");
-        const dtsDir = path.dirname(dtsPath);
-        const importMap = new Map<string, string[]>(); // module -> [names]
-
-        for (const e of astNodes) {
-          const name = e.name;
-          // Prefer explicit location, fallback to global type map
-          const orig = (e as any).location?.file ?? typeToFileMap.get(name);
-          if (!orig) continue;
-          let rel = path.relative(dtsDir, orig).replace(/\\/g, "/");
-          rel = rel.replace(/\.(ts|tsx|js|jsx|d\.ts)$/, "");
-          if (!rel.startsWith(".") && !rel.startsWith("/")) rel = `./${rel}`;
-          const arr = importMap.get(rel) || [];
-          if (!arr.includes(name)) arr.push(name);
-          importMap.set(rel, arr);
-        }
+    // Generate mocks for this file's AST nodes. The mocks of the external types
+    // they use are written below, but count as outputs of this file.
+    const outputs = writeMocks(astNodes, mockPath);
+    cacheEntry?.outputs.push(...outputs);
+    for (const key of externalsByFile.get(filePath) || []) {
+      const { packageName, entity } = externals.get(key)!;
+      const externalPath = getExternalMockPath(
+        outputRootDir,
+        packageName,
+        entity.name,
+        format
+      );
+      cacheEntry?.outputs.push(
+        externalPath,
+        ...(format === "js"
+          ? [externalPath.replace(/\.mock\.js$/, ".mock.d.ts")]
+          : [])
+      );
+    }
+  }
 
-        const lines: string[] = [];
+  // 3) Mocks of the external types referenced by the regenerated files
+  for (const { packageName, entity } of externals.values()) {
+    writeMocks(
+      [annotateEntityWithRecursion(entity, adj, nodeToScc, reachableFrom)],
+      getExternalMockPath(outputRootDir, packageName, entity.name, format)
+    );
+  }
 
-        for (const [mod, names] of importMap.entries()) {
-          lines.push(`import type { ${names.join(", ")} } from '${mod}';`);
-        }
-        if (lines.length) lines.push("");
-
-        for (const e of astNodes) {
-          const name = e.name;
-          const funcName = `Mock${name}`;
-          // Determine return type: if we imported it, use the type name; otherwise fallback to unknown
-          const hasImport = Array.from(importMap.values()).some((arr) =>
-            arr.includes(name)
-          );
-          const retType = hasImport ? name : "unknown";
-          lines.push(
-            `export function ${funcName}(overrides?: Partial<${retType}>): ${retType};`
-          );
-        }
+  if (unresolved.length) {
+    logger.warn(
+      `${unresolved.length} type(s) depend on type parameters and could not be resolved; properties are mocked loosely (add a mapping for the path to control the value) and generic aliases get no factory:\n` +
+        unresolved.map((entry) => `  ${entry.path}: ${entry.text}`).join("\n")
+    );
+  }
+  if (cache && !dryRun) saveCache(projectRootDir, outputRootDir, cache);
 
-        fs.writeFileSync(dtsPath, lines.join("\n"), "utf-8");
-      } catch (err) {
-        // best-effort; do not crash generation on .d.ts emission failure
-      }
+  if (!dryRun) {
+    for (const output of result.outputs.keys()) expected.add(output);
+    const { orphaned, removed, modified } = updateManifest(
+      outputRootDir,
+      result.outputs,
+      expected,
+      prune
+    );
+    result.orphaned = orphaned;
+    result.pruned = removed;
+    for (const file of removed)
+      logger.info(
+        `Removed orphaned mock file ${path.relative(projectRootDir, file)}`
+      );
+    for (const file of modified)
+      logger.warn(
+        `Not removing orphaned mock file ${path.relative(projectRootDir, file)}: it was edited after generation`
+      );
+    if (!prune && orphaned.length) {
+      logger.warn(
+        `${orphaned.length} mock file(s) no longer match any source (run with --prune to delete them):\n` +
+          orphaned
+            .map((file) => `  ${path.relative(projectRootDir, file)}`)
+            .join("\n")
+      );
     }
   }
+  return result;
 }
 
 // Export for use in generation.ts
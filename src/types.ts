@@ -1,3 +1,6 @@
+import type { ExternalTypes } from "./external";
+import type { MappingProvider } from "./generator";
+
 export type Config = {
   projectRootDir: string;
   include: string[];
@@ -5,10 +8,64 @@ export type Config = {
   outDir?: string;
   // Output format: 'ts' emits TypeScript mocks (.mock.ts). 'js' emits plain JS files (.mock.js)
   format?: "ts" | "js";
-  mappings?: Record<string, string[]>;
-  // Optional path (relative to project root) to a module that exports a mapping provider function
+  mappings?: Record<string, string | string[]>;
+  // Optional path (relative to project root) to a module that exports a mapping provider function,
+  // or the function itself when the config is a JS/TS file
   // Signature: (type: string, path: string, _context?: any) => string | undefined
-  mappingProvider?: string;
+  mappingProvider?: string | MappingProvider;
+  // Number of entries emitted for open-ended Record<K, V> and index signatures,
+  // either fixed or a { min, max } range. Finite key sets are always exhaustive.
+  recordEntries?: number | { min: number; max: number };
+  // How function-typed properties are stubbed: 'plain' arrow functions (default),
+  // or spy-compatible 'vi' (vi.fn) / 'jest' (jest.fn) stubs
+  functionStubs?: "plain" | "vi" | "jest";
+  // How Promise<T> values are emitted: 'resolve' (default) uses Promise.resolve(mock),
+  // 'reject' emits rejected promises and 'delay' resolves after `promiseDelay` ms
+  promiseMode?: "resolve" | "reject" | "delay";
+  promiseDelay?: number;
+  // Deterministic mocks: `true` adds a per-call `seed` option and a `withSeed` helper
+  // to the generated files, a number additionally seeds every mock by default
+  seed?: number | true;
+  // Overrides are deep-merged into generated objects. Arrays in overrides replace the
+  // generated array ('replace', default) or are merged item by item ('index')
+  arrayMerge?: "replace" | "index";
+  // Emit a fluent builder (`buildOrder().withId("1").build()`) per interface and class
+  builders?: boolean;
+  // Named override presets per entity: { User: { admin: { role: "admin" } } } emits
+  // MockUser.trait("admin") and MockUserAdmin()
+  traits?: Record<string, Record<string, Record<string, unknown>>>;
+  // How types from node_modules packages are mocked, per package name ("*" for
+  // the others): "generate" (default) into $mock/$external, "inline" or
+  // { factories: "./test/factories" } exporting Mock<Type> functions
+  externalTypes?: ExternalTypes;
+  // Names for types declared with the same name in several files, keyed by
+  // "<path>#<Type>": { "src/billing/address.ts#Address": "BillingAddress" }.
+  // Without one, such types are named after their directory (MockBillingAddress)
+  typeNames?: Record<string, string>;
+  // Skip unchanged files using node_modules/.cache/typemockr (default true)
+  cache?: boolean;
+  // Delete previously generated mock files whose source no longer exists
+  prune?: boolean;
+  // Follow imports of monorepo workspace packages (symlinked into node_modules)
+  // and generate mocks for the types they declare
+  workspaces?: boolean;
+  // Several outputs generated in one run; each target inherits the settings above
+  targets?: TargetConfig[];
+};
+
+// Generation settings a target overrides, e.g. JS mocks for a Storybook package
+export type TargetConfig = Partial<
+  Omit<Config, "projectRootDir" | "cache" | "prune" | "workspaces" | "targets">
+> & {
+  // Selects the target with --target and labels its output
+  name?: string;
+};
+
+export type RawTarget = Omit<
+  RawConfig,
+  "cache" | "prune" | "workspaces" | "targets"
+> & {
+  name?: string;
 };
 
 export type RawConfig = {
@@ -16,6 +73,20 @@ export type RawConfig = {
   baseDir?: string[];
   outDir?: string;
   format?: "ts" | "js";
-  mappings?: Record<string, string[]>;
-  mappingProvider?: string;
+  mappings?: Record<string, string | string[]>;
+  mappingProvider?: string | MappingProvider;
+  recordEntries?: number | { min: number; max: number };
+  functionStubs?: "plain" | "vi" | "jest";
+  promiseMode?: "resolve" | "reject" | "delay";
+  promiseDelay?: number;
+  seed?: number | boolean;
+  arrayMerge?: "replace" | "index";
+  builders?: boolean;
+  traits?: Record<string, Record<string, Record<string, unknown>>>;
+  externalTypes?: ExternalTypes;
+  typeNames?: Record<string, string>;
+  cache?: boolean;
+  prune?: boolean;
+  workspaces?: boolean;
+  targets?: RawTarget[];
 };
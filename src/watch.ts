@@ -0,0 +1,197 @@
+import * as fs from "fs";
+import * as path from "path";
+import { FileSystemRefreshResult } from "ts-morph";
+import {
+  createTargetsProject,
+  generateForProject,
+  getTargetFiles,
+  type GenerateMocksOptions,
+  type GenerationChanges,
+} from "./typemockr";
+import { logger } from "./logger";
+
+const SOURCE_FILE_RE = /\.(ts|tsx|mts|cts)$/;
+
+// Static directory prefix of an include glob: "src/**/*.ts" -> "src"
+function globBase(pattern: string) {
+  const parts = pattern.split(/[\\/]/);
+  const index = parts.findIndex((part) => /[*?[\]{}!]/.test(part));
+  return (index === -1 ? parts.slice(0, -1) : parts.slice(0, index)).join("/");
+}
+
+function describe(projectRootDir: string, files: Iterable<string>) {
+  return Array.from(files)
+    .map((file) => path.relative(projectRootDir, file))
+    .join(", ");
+}
+
+// Generate once, then keep the ts-morph Project alive and regenerate the mocks
+// affected by each batch of source changes. Several targets share the Project.
+// Returns a function that stops watching. When a watcher fails (e.g. a watched
+// directory is removed), watching stops and `onError` is called.
+export function watchMocks(
+  options: GenerateMocksOptions | GenerateMocksOptions[],
+  {
+    debounceMs = 100,
+    onError = (err) => logger.error("[typemockr] watching failed:", err),
+  }: { debounceMs?: number; onError?: (err: Error) => void } = {}
+) {
+  const targets = Array.isArray(options) ? options : [options];
+  const { projectRootDir } = targets[0]!;
+  const { project, files } = createTargetsProject(targets);
+
+  let started = Date.now();
+  const last = targets.map((options, index) =>
+    generateForProject(project, options, undefined, files[index])
+  );
+  const total = (key: "written" | "unchanged") =>
+    last.reduce((sum, result) => sum + result[key].length, 0);
+  logger.info(
+    `[typemockr] generated ${total("written")} mock file(s), ${total(
+      "unchanged"
+    )} unchanged in ${Date.now() - started}ms. Watching for changes...`
+  );
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  function run() {
+    timer = undefined;
+    const changedPaths = Array.from(pending);
+    pending.clear();
+    started = Date.now();
+
+    const changes: GenerationChanges = {
+      files: new Set(),
+      entities: new Set(),
+    };
+    let removed = 0;
+    for (const changedPath of changedPaths) {
+      const sourceFile = project.getSourceFile(changedPath);
+      if (!sourceFile) continue;
+      const filePath = sourceFile.getFilePath();
+      // Entities the file declared before the change still affect their dependents
+      for (const result of last) {
+        for (const name of result.entitiesByFile.get(filePath) || [])
+          changes.entities.add(name);
+      }
+      if (
+        sourceFile.refreshFromFileSystemSync() !==
+        FileSystemRefreshResult.Deleted
+      ) {
+        changes.files.add(filePath);
+        continue;
+      }
+      removed++;
+      // Outputs of deleted sources are orphaned: the next generation's
+      // manifest update reports them, or removes them with `prune`
+      for (const result of last) result.entitiesByFile.delete(filePath);
+      if (!sourceFile.wasForgotten()) project.removeSourceFile(sourceFile);
+    }
+    // Pick up new files matching the include globs and their local imports
+    const known = new Set(project.getSourceFiles().map((f) => f.getFilePath()));
+    targets.forEach((options, index) => {
+      files[index] = getTargetFiles(project, options);
+    });
+    for (const sourceFile of project.getSourceFiles()) {
+      if (!known.has(sourceFile.getFilePath()))
+        changes.files.add(sourceFile.getFilePath());
+    }
+
+    if (!changes.files.size && !changes.entities.size && !removed) return;
+    try {
+      const written: string[] = [];
+      const deleted: string[] = [];
+      let unchanged = 0;
+      targets.forEach((options, index) => {
+        const result = generateForProject(
+          project,
+          options,
+          changes,
+          files[index]
+        );
+        for (const [file, names] of result.entitiesByFile)
+          last[index]!.entitiesByFile.set(file, names);
+        written.push(...result.written);
+        deleted.push(...result.pruned);
+        unchanged += result.unchanged.length;
+      });
+      const summary = [
+        `${changes.files.size + removed} source file(s) changed`,
+        `${written.length} mock file(s) written`,
+        `${unchanged} unchanged`,
+      ];
+      if (deleted.length) summary.push(`${deleted.length} removed`);
+      logger.info(
+        `[typemockr] ${summary.join(", ")} in ${Date.now() - started}ms`
+      );
+      if (written.length || deleted.length) {
+        logger.info(`  ${describe(projectRootDir, [...written, ...deleted])}`);
+      }
+    } catch (err) {
+      // Keep watching: the next save usually fixes whatever broke
+      logger.error("[typemockr] generation failed:", err);
+    }
+  }
+
+  const outputRoots = targets.map(
+    (options) => path.resolve(options.outputRootDir) + path.sep
+  );
+  function onEvent(dir: string, fileName: string | Buffer | null) {
+    if (!fileName) return;
+    const filePath = path.resolve(dir, fileName.toString());
+    if (!SOURCE_FILE_RE.test(filePath)) return;
+    // Ignore our own output and dependencies
+    if (
+      outputRoots.some((root) => filePath.startsWith(root)) ||
+      filePath.split(path.sep).includes("node_modules")
+    )
+      return;
+    pending.add(filePath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, debounceMs);
+  }
+
+  // Include roots are watched recursively so new files are seen; files pulled in
+  // from elsewhere through local imports get a watcher on their directory.
+  const watchers: fs.FSWatcher[] = [];
+  function stop() {
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  }
+  function watch(dir: string, recursive: boolean) {
+    const watcher = fs.watch(dir, { recursive }, (_event, fileName) =>
+      onEvent(dir, fileName)
+    );
+    watcher.on("error", (err) => {
+      stop();
+      onError(err);
+    });
+    watchers.push(watcher);
+  }
+  const roots = new Set(
+    targets.flatMap((options) =>
+      options.include
+        .filter((pattern) => !pattern.startsWith("!"))
+        .map((pattern) => path.resolve(projectRootDir, globBase(pattern)))
+    )
+  );
+  const extraDirs = new Set<string>();
+  for (const sourceFile of project.getSourceFiles()) {
+    const dir = path.dirname(sourceFile.getFilePath());
+    const covered = Array.from(roots).some(
+      (root) => dir === root || dir.startsWith(root + path.sep)
+    );
+    if (covered || dir.split(path.sep).includes("node_modules")) continue;
+    extraDirs.add(dir);
+  }
+  try {
+    for (const root of roots) watch(root, true);
+    for (const dir of extraDirs) watch(dir, false);
+  } catch (err) {
+    stop();
+    throw err;
+  }
+
+  return stop;
+}
@@ -0,0 +1,40 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const path = require("path");
+const { setupFixture, removeFixture } = require("./helpers");
+const {
+  runCli,
+  EXIT_OK,
+  EXIT_FAILURE,
+  EXIT_USAGE,
+} = require("../dist/cjs/cli");
+
+test("check and --check exit with 1 once mocks are stale", async () => {
+  const dir = setupFixture("tuples");
+  const config = path.join(dir, "typemockr.json");
+  fs.writeFileSync(
+    config,
+    JSON.stringify({
+      include: ["src/**/*.ts"],
+      outDir: "mocks",
+      baseDir: ["src"],
+    })
+  );
+  const run = (...args) => runCli([...args, "--config", config, "--quiet"]);
+  try {
+    assert.equal(await run("generate"), EXIT_OK);
+    assert.equal(await run("check"), EXIT_OK);
+    assert.equal(await run("--check"), EXIT_OK);
+
+    fs.appendFileSync(
+      path.join(dir, "src", "geo.ts"),
+      "export interface Stop { name: string }\n"
+    );
+    assert.equal(await run("check"), EXIT_FAILURE);
+    assert.equal(await run("--check"), EXIT_FAILURE);
+    assert.equal(await run("list", "--check"), EXIT_USAGE);
+  } finally {
+    removeFixture(dir);
+  }
+});
@@ -0,0 +1,137 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { typemockr } = require("./helpers");
+
+test("recordEntries ranges are checked for each target", () => {
+  const { errors } = typemockr.validateConfig({
+    recordEntries: { min: 1, max: 3 },
+    targets: [{ name: "api" }, { recordEntries: { min: 4, max: 2 } }],
+  });
+  assert.deepEqual(errors, [
+    `"targets[1].recordEntries.min" (4) must not exceed "targets[1].recordEntries.max" (2)`,
+  ]);
+});
+
+test("trait names normalising to the same shortcut are rejected", () => {
+  const { errors } = typemockr.validateConfig({
+    traits: { User: { "is-admin": {}, guest: {} } },
+    targets: [{ traits: { User: { "is-admin": {}, isAdmin: {} } } }],
+  });
+  assert.deepEqual(errors, [
+    `"targets[0].traits.User": traits "is-admin" and "isAdmin" both map to MockUserIsAdmin()`,
+  ]);
+});
+
+// Project directory holding the given files, removed after `run`
+async function withProject(files, run) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "typemockr-config-"));
+  try {
+    for (const [file, content] of Object.entries(files))
+      fs.writeFileSync(path.join(dir, file), content);
+    await run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const packageJson = (config) =>
+  JSON.stringify({ name: "app", ...(config && { typemockr: config }) });
+
+test("config modules are loaded, TypeScript included", async () => {
+  await withProject(
+    {
+      "typemockr.config.ts": [
+        `const include: string[] = ["src/**/*.ts"];`,
+        `export default { include, seed: 3 };`,
+      ].join("\n"),
+    },
+    async (dir) => {
+      const config = await typemockr.loadConfig(dir);
+      assert.deepEqual(config.include, ["src/**/*.ts"]);
+      assert.equal(config.seed, 3);
+    }
+  );
+  await withProject(
+    {
+      "typemockr.config.mjs": `export default async () => ({ include: ["lib/**/*.ts"] });`,
+    },
+    async (dir) => {
+      assert.deepEqual((await typemockr.loadConfig(dir)).include, [
+        "lib/**/*.ts",
+      ]);
+    }
+  );
+  await withProject(
+    {
+      "typemockr.config.cjs": `module.exports = () => ({ include: ["types/*.ts"] });`,
+    },
+    async (dir) => {
+      assert.deepEqual((await typemockr.loadConfig(dir)).include, [
+        "types/*.ts",
+      ]);
+    }
+  );
+});
+
+test("config files take precedence in CONFIG_FILES order", async () => {
+  await withProject(
+    {
+      "typemockr.config.cjs": `module.exports = { include: ["from-module"] };`,
+      "typemockr.json": JSON.stringify({ include: ["from-json"] }),
+      "package.json": packageJson({ include: ["from-package"] }),
+    },
+    async (dir) => {
+      assert.equal(
+        typemockr.findConfigFile(dir),
+        path.join(dir, "typemockr.config.cjs")
+      );
+      assert.deepEqual((await typemockr.loadConfig(dir)).include, [
+        "from-module",
+      ]);
+      fs.unlinkSync(path.join(dir, "typemockr.config.cjs"));
+      assert.deepEqual((await typemockr.loadConfig(dir)).include, [
+        "from-json",
+      ]);
+      fs.unlinkSync(path.join(dir, "typemockr.json"));
+      assert.deepEqual((await typemockr.loadConfig(dir)).include, [
+        "from-package",
+      ]);
+    }
+  );
+});
+
+test("package.json only counts with a typemockr key", async () => {
+  await withProject({ "package.json": packageJson() }, async (dir) => {
+    assert.equal(typemockr.findConfigFile(dir), undefined);
+    assert.deepEqual((await typemockr.loadConfig(dir)).include, []);
+  });
+});
+
+test("config modules that fail to load raise a ConfigError", async () => {
+  await withProject(
+    { "typemockr.config.js": `throw new Error("boom");` },
+    async (dir) => {
+      await assert.rejects(typemockr.loadConfig(dir), (err) => {
+        assert.ok(err instanceof typemockr.ConfigError);
+        assert.match(
+          err.message,
+          /typemockr\.config\.js: failed to load config: boom/
+        );
+        return true;
+      });
+    }
+  );
+  await withProject(
+    { "typemockr.config.js": `module.exports = async () => 42;` },
+    async (dir) => {
+      await assert.rejects(typemockr.loadConfig(dir), (err) => {
+        assert.ok(err instanceof typemockr.ConfigError);
+        assert.match(err.message, /must export a config object/);
+        return true;
+      });
+    }
+  );
+});
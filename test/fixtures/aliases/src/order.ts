@@ -0,0 +1,8 @@
+import type { Money } from "@shared/money";
+import type { Team } from "@acme/team";
+
+export interface Order {
+  id: string;
+  total: Money;
+  team: Team;
+}
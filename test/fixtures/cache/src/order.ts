@@ -0,0 +1,8 @@
+import type { Role, User } from "./user";
+
+// Every property is an inlined shape: nothing references User or Role by name
+export interface Order {
+  buyer: Pick<User, "id" | "name">;
+  approvals: Record<Role, boolean>;
+  limits: { [K in Role]: number };
+}
@@ -0,0 +1,7 @@
+export type Role = "admin" | "member";
+
+export interface User {
+  id: string;
+  name: string;
+  role: Role;
+}
@@ -0,0 +1,18 @@
+export enum Status {
+  Active = "active",
+  Done = "done",
+}
+export enum Flags {
+  Read = 1 << 0,
+  Write = Read << 1,
+}
+export enum Computed {
+  Short = "a".length,
+  Long = "abc".length,
+}
+export interface Task {
+  status: Status;
+  previous?: Status;
+  flags: Flags;
+  computed: Computed;
+}
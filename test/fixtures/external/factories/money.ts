@@ -0,0 +1,5 @@
+import type { Decimal } from "money-lib";
+
+export function MockDecimal(overrides: Partial<Decimal> = {}): Decimal {
+  return { value: "1.00", scale: 2, ...overrides };
+}
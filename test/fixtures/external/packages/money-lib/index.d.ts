@@ -0,0 +1,4 @@
+export interface Decimal {
+  value: string;
+  scale: number;
+}
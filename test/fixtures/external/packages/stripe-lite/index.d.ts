@@ -0,0 +1,10 @@
+export interface Address {
+  city: string;
+  line1: string;
+}
+
+export interface Customer {
+  id: string;
+  email: string;
+  address: Address;
+}
@@ -0,0 +1,8 @@
+import type { Customer } from "stripe-lite";
+import type { Decimal } from "money-lib";
+
+export interface Order {
+  id: string;
+  customer: Customer;
+  total: Decimal;
+}
@@ -0,0 +1,13 @@
+export interface Line {
+  sku: string;
+  qty: number;
+}
+export interface Order {
+  id: string;
+  pair: () => [string, number];
+  lines: () => Record<"first" | "second", Line>;
+  total: (line: Line) => number;
+  nested: () => () => [boolean];
+  notify: () => void;
+  load?: (id: string) => Promise<[string, Line]>;
+}
@@ -0,0 +1,13 @@
+export interface Item {
+  label: string;
+}
+
+export interface Box<T> {
+  value: T;
+  items: Item[];
+  note?: string;
+}
+
+export interface Shelf {
+  boxes: Box<number>[];
+}
@@ -0,0 +1,17 @@
+export interface Line {
+  sku: string;
+  qty: number;
+}
+
+export interface Customer {
+  name: string;
+  address: { city: string; zip: string };
+}
+
+export interface Order {
+  customer: Customer;
+  lines: Line[];
+  placedAt: Date;
+  extra: unknown;
+  note?: string;
+}
@@ -0,0 +1,4 @@
+// Shares its name with the project's Address types
+export interface Address {
+  iban: string;
+}
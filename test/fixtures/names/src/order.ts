@@ -0,0 +1,9 @@
+import type { Address as BillTo } from "./billing/address";
+import type { Address as ShipTo } from "./shipping/address";
+import type { Address as LedgerAddress } from "money-lib";
+
+export interface Order {
+  billing: BillTo;
+  shipping: ShipTo;
+  ledger: LedgerAddress;
+}
@@ -0,0 +1,11 @@
+export interface User {
+  id: string;
+  role: "admin" | "member";
+}
+export interface Api {
+  pick: Promise<"a" | "b">;
+  users: Promise<User[]>;
+  pair?: Promise<[string, number]>;
+  counts: Promise<Record<"ok" | "failed", number>>;
+  fetch: () => Promise<[User, boolean]>;
+}
@@ -0,0 +1,11 @@
+export type Size = "s" | "m" | "l";
+export enum Region {
+  Eu = "eu",
+  Us = "us",
+}
+export interface Stock {
+  bySize: Record<Size, number>;
+  byRegion: Record<Region, string[]>;
+  bySku: Record<string, number>;
+  notes: { [id: string]: { text: string; pinned?: boolean } };
+}
@@ -0,0 +1,12 @@
+export type Status = "open" | "closed";
+export interface Customer {
+  name: string;
+  address: { city: string; zip?: string };
+}
+export interface Order {
+  id: string;
+  status: Status;
+  customer: Customer;
+  lines: Array<{ sku: string; qty: number }>;
+}
+export type Shipment = { carrier: string; eta: Date } | { pickup: true };
@@ -0,0 +1,10 @@
+export interface Profile {
+  role: string;
+  bio: string;
+}
+
+export interface User {
+  id: string;
+  tags: string[];
+  profile: Profile;
+}
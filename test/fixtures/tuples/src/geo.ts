@@ -0,0 +1,7 @@
+export interface Route {
+  point: [lat: number, lng: number];
+  label: [string, number?];
+  stops: [string, ...number[]];
+  span: readonly [start: Date, end: Date];
+  tags: [...string[], boolean];
+}
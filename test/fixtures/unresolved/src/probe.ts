@@ -0,0 +1,17 @@
+export type IsStr<T> = T extends string ? "yes" : "no";
+
+export type Boxed<T> = { [K in keyof T]: T[K][] };
+
+export interface Probe {
+  str: IsStr<string>;
+  num: IsStr<number>;
+  boxes: Boxed<{ count: number }>;
+}
+
+export interface Store<T> {
+  byKey: { [K in keyof T]: T[K][] };
+}
+
+export interface Tagged<T> {
+  kind: T extends string ? "text" : "other";
+}
@@ -0,0 +1,13 @@
+export interface User {
+  id: string;
+  name: string;
+  nickname?: string;
+  email: string | null;
+}
+
+export type UserPatch = Partial<User>;
+export type CompleteUser = Required<User>;
+export type UserRef = Pick<User, "id" | "name">;
+export type PublicUser = Omit<User, "email">;
+export type FrozenUser = Readonly<User>;
+export type Email = NonNullable<User["email"]>;
@@ -0,0 +1,549 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const path = require("path");
+const { pathToFileURL } = require("url");
+const {
+  typemockr,
+  setupFixture,
+  removeFixture,
+  generateOptions,
+  generate,
+  readMock,
+  typeCheck,
+} = require("./helpers");
+
+// Each fixture is generated and must type-check together with its mocks
+function fixtureTest(name, check) {
+  test(name, () => {
+    const dir = setupFixture(name);
+    try {
+      generate(dir);
+      assert.deepEqual(typeCheck(dir), []);
+      check?.(dir);
+    } finally {
+      removeFixture(dir);
+    }
+  });
+}
+
+// Generated property values of the factory `Mock<name>`, keyed by property
+function factoryProperties(mock, name) {
+  const body = mock
+    .split(`export function Mock${name}(`)[1]
+    .split("return mergeDeep")[0];
+  return Object.fromEntries(
+    [...body.matchAll(/^\s+"(\w+)": (.*?),?$/gm)].map(([, key, value]) => [
+      key,
+      value,
+    ])
+  );
+}
+
+fixtureTest("tuples", (dir) => {
+  const mock = readMock(dir, "geo.mock.ts");
+  assert.match(
+    mock,
+    /\.\.\.faker\.helpers\.multiple\(\(\) => faker\.number\.int/
+  );
+  assert.match(mock, /faker\.helpers\.maybe\(/);
+});
+
+fixtureTest("records", (dir) => {
+  const mock = readMock(dir, "stock.mock.ts");
+  // Finite keys are emitted exhaustively, open-ended ones as generated entries
+  assert.match(mock, /"s": /);
+  assert.match(mock, /Object\.fromEntries\(/);
+});
+
+fixtureTest("functions", (dir) => {
+  const mock = readMock(dir, "order.mock.ts");
+  assert.match(mock, /"total": \(\) => faker\.number\.int/);
+  // Return values are asserted to the function's return type, not the function
+  assert.match(mock, /as ReturnType<NonNullable<Order\["pair"\]>>/);
+});
+
+fixtureTest("promises", (dir) => {
+  const mock = readMock(dir, "api.mock.ts");
+  // Payloads are asserted to the awaited type, not the promise
+  assert.match(mock, /as Awaited<NonNullable<Api\["pick"\]>>/);
+  assert.match(mock, /Promise\.resolve\(/);
+});
+
+for (const promiseMode of ["reject", "delay"]) {
+  test(`promises with promiseMode ${promiseMode}`, () => {
+    const dir = setupFixture("promises");
+    try {
+      generate(dir, { promiseMode });
+      assert.deepEqual(typeCheck(dir), []);
+    } finally {
+      removeFixture(dir);
+    }
+  });
+}
+
+fixtureTest("enums", (dir) => {
+  assert.match(readMock(dir, "task.mock.ts"), /Status\.Active/);
+});
+
+fixtureTest("utility-types", (dir) => {
+  const mock = readMock(dir, "user.mock.ts");
+  const optional = /^faker\.helpers\.maybe\(/;
+  const patch = factoryProperties(mock, "UserPatch");
+  assert.deepEqual(Object.keys(patch), ["id", "name", "nickname", "email"]);
+  assert.ok(Object.values(patch).every((value) => optional.test(value)));
+  const complete = factoryProperties(mock, "CompleteUser");
+  assert.deepEqual(Object.keys(complete), ["id", "name", "nickname", "email"]);
+  assert.doesNotMatch(complete.nickname, optional);
+  // Required removes `?` but keeps null
+  assert.match(complete.email, /null/);
+  assert.deepEqual(Object.keys(factoryProperties(mock, "UserRef")), [
+    "id",
+    "name",
+  ]);
+  assert.deepEqual(Object.keys(factoryProperties(mock, "PublicUser")), [
+    "id",
+    "name",
+    "nickname",
+  ]);
+  assert.deepEqual(
+    factoryProperties(mock, "FrozenUser"),
+    factoryProperties(mock, "User")
+  );
+  assert.match(
+    mock,
+    /export function MockEmail\(\): Email \{\n\s+return faker\.lorem\.words\(\)/
+  );
+});
+
+test("enums in JS output", () => {
+  const dir = setupFixture("enums");
+  try {
+    generate(dir, { format: "js" });
+    assert.deepEqual(typeCheck(dir), []);
+    const mock = readMock(dir, "task.mock.js");
+    assert.match(mock, /faker\.helpers\.arrayElement\(\["active", "done"\]\)/);
+    // Computed members have no value to inline, arrayElement([]) would throw
+    assert.doesNotMatch(mock, /arrayElement\(\[\]\)/);
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("seeded mocks type-check", () => {
+  const dir = setupFixture("seed");
+  try {
+    generate(dir, { seed: true });
+    assert.deepEqual(typeCheck(dir), []);
+    // Object members of unions reseed per path like interface properties
+    assert.match(
+      readMock(dir, "order.mock.ts"),
+      /seeded\("Shipment\.carrier", /
+    );
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("seeded JS mocks are reproducible", async () => {
+  const dir = setupFixture("seed");
+  try {
+    generate(dir, { seed: true, format: "js" });
+    fs.writeFileSync(path.join(dir, "package.json"), '{ "type": "module" }');
+    const mocks = await import(
+      pathToFileURL(path.join(dir, "mocks", "order.mock.js")).href
+    );
+    const order = (seed) => JSON.stringify(mocks.MockOrder({}, { seed }));
+    assert.equal(order(1), order(1));
+    assert.notEqual(order(1), order(2));
+    assert.equal(
+      JSON.stringify(mocks.withSeed(7, () => mocks.MockCustomer())),
+      JSON.stringify(mocks.MockCustomer({}, { seed: 7 }))
+    );
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("failing to write a JS declaration file fails generation", () => {
+  const dir = setupFixture("tuples");
+  try {
+    // A directory where the declaration file goes makes its write fail
+    fs.mkdirSync(path.join(dir, "mocks", "geo.mock.d.ts"), { recursive: true });
+    assert.throws(() => generate(dir, { format: "js" }), { code: "EISDIR" });
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("editing a type regenerates the mocks it is inlined into", () => {
+  const dir = setupFixture("cache");
+  try {
+    generate(dir, { cache: true });
+    const userPath = path.join(dir, "src", "user.ts");
+    fs.writeFileSync(
+      userPath,
+      fs
+        .readFileSync(userPath, "utf-8")
+        .replace(`"member"`, `"member" | "guest"`)
+        .replace("name: string", "name: number")
+    );
+    const result = generate(dir, { cache: true });
+    assert.ok(
+      result.written.includes(path.join(dir, "mocks", "order.mock.ts"))
+    );
+    assert.match(readMock(dir, "order.mock.ts"), /"guest": /);
+    assert.deepEqual(typeCheck(dir), []);
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("check reports stale, missing and orphaned mocks", () => {
+  const dir = setupFixture("cache");
+  const src = path.join(dir, "src");
+  const mocks = path.join(dir, "mocks");
+  try {
+    fs.writeFileSync(
+      path.join(src, "note.ts"),
+      "export interface Note { text: string }\n"
+    );
+    generate(dir);
+    assert.deepEqual(typemockr.checkMocks(generateOptions(dir)), {
+      stale: [],
+      missing: [],
+      orphaned: [],
+    });
+
+    const userPath = path.join(src, "user.ts");
+    fs.writeFileSync(
+      userPath,
+      fs
+        .readFileSync(userPath, "utf-8")
+        .replace(`"member"`, `"member" | "guest"`)
+    );
+    fs.unlinkSync(path.join(src, "note.ts"));
+    fs.writeFileSync(
+      path.join(src, "tag.ts"),
+      "export interface Tag { label: string }\n"
+    );
+    const { stale, missing, orphaned } = typemockr.checkMocks(
+      generateOptions(dir)
+    );
+    assert.deepEqual(stale.map(({ file }) => file).sort(), [
+      path.join(mocks, "order.mock.ts"),
+      path.join(mocks, "user.mock.ts"),
+    ]);
+    assert.match(stale[0].diff, /\+.*"guest"/);
+    assert.deepEqual(missing, [path.join(mocks, "tag.mock.ts")]);
+    assert.deepEqual(orphaned, [path.join(mocks, "note.mock.ts")]);
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("generic mapped and conditional aliases get no factory", () => {
+  const dir = setupFixture("unresolved");
+  try {
+    const { warnings } = generate(dir);
+    assert.deepEqual(typeCheck(dir), []);
+    const mock = readMock(dir, "probe.mock.ts");
+    assert.doesNotMatch(mock, /function Mock(IsStr|Boxed)/);
+    // Instantiated uses are resolved by the checker
+    assert.match(mock, /"str": "yes" as const/);
+    // Unresolved properties keep their declared type
+    assert.doesNotMatch(mock, /\bas any\b/);
+    assert.match(mock, /\{\} as unknown as Store<T>\["byKey"\]/);
+    assert.match(warnings.join("\n"), /^ {2}IsStr: T extends string/m);
+    assert.match(warnings.join("\n"), /^ {2}Boxed: /m);
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("trait mocks don't share state between calls", async () => {
+  const dir = setupFixture("traits");
+  const traits = {
+    User: { admin: { tags: ["x"], profile: { role: "admin" } } },
+  };
+  try {
+    generate(dir, { traits });
+    assert.deepEqual(typeCheck(dir), []);
+
+    generate(dir, { traits, format: "js" });
+    fs.writeFileSync(path.join(dir, "package.json"), '{ "type": "module" }');
+    const mocks = await import(
+      pathToFileURL(path.join(dir, "mocks", "user.mock.js")).href
+    );
+    const mutated = mocks.MockUserAdmin();
+    mutated.tags.push("mutated");
+    mutated.profile.role = "hacked";
+    const fresh = mocks.MockUserAdmin();
+    assert.deepEqual(fresh.tags, ["x"]);
+    assert.equal(fresh.profile.role, "admin");
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("declarations of generic entities in JS output", () => {
+  const dir = setupFixture("generics");
+  try {
+    generate(dir, {
+      format: "js",
+      builders: true,
+      seed: true,
+      traits: { Box: { empty: { items: [] } } },
+    });
+    assert.deepEqual(typeCheck(dir), []);
+    const declarations = readMock(dir, "box.mock.d.ts");
+    assert.match(
+      declarations,
+      /function MockBoxList<T = any>\(.*\): Box<T>\[\];/
+    );
+    assert.match(declarations, /class BoxBuilder<T = any> \{/);
+    assert.match(declarations, /withValue\(value: Box<T>\["value"\]\): this;/);
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("helpers follow useExport", () => {
+  const { generate: generateCode } = require("../dist/cjs/generation");
+  const tag = {
+    name: "Tag",
+    type: "instance",
+    instanceKind: "interface",
+    isExported: true,
+    properties: [
+      { name: "label", type: "primitive", value: "string", optional: false },
+    ],
+  };
+  const code = (useExport) =>
+    generateCode(
+      "/p",
+      "/p/mocks",
+      [],
+      [tag],
+      true,
+      useExport,
+      "/p/mocks/tag.mock.ts",
+      new Map(),
+      undefined,
+      undefined,
+      "ts",
+      { seed: true }
+    );
+  assert.match(code(true), /^export function withSeed</m);
+  assert.doesNotMatch(code(false), /\bexport\b/);
+});
+
+test("targets inherit top-level settings and share cache and prune", async () => {
+  const dir = setupFixture("cache");
+  const mocks = path.join(dir, "mocks");
+  const jsMocks = path.join(dir, "mocks-js");
+  fs.writeFileSync(
+    path.join(dir, "typemockr.json"),
+    JSON.stringify({
+      include: ["src/**/*.ts"],
+      baseDir: ["src"],
+      mappings: { "faker.string.uuid()": ["*.id"] },
+      cache: true,
+      prune: true,
+      targets: [
+        { name: "ts", outDir: "mocks" },
+        {
+          name: "js",
+          outDir: "mocks-js",
+          format: "js",
+          mappings: { "*.name": "faker.person.fullName()" },
+        },
+      ],
+    })
+  );
+  const run = async () =>
+    typemockr.generateTargets(
+      typemockr.resolveTargets(await typemockr.loadConfig(dir))
+    );
+  try {
+    const [ts, js] = await run();
+    assert.deepEqual(typeCheck(dir), []);
+    assert.ok(ts.written.includes(path.join(mocks, "user.mock.ts")));
+    assert.ok(js.written.includes(path.join(jsMocks, "user.mock.js")));
+    const tsUser = readMock(dir, "user.mock.ts");
+    assert.match(tsUser, /"id": faker\.string\.uuid\(\)/);
+    assert.doesNotMatch(tsUser, /faker\.person\.fullName\(\)/);
+    // The target's mappings replace the top-level ones
+    const jsUser = fs.readFileSync(path.join(jsMocks, "user.mock.js"), "utf-8");
+    assert.match(jsUser, /"name": faker\.person\.fullName\(\)/);
+    assert.doesNotMatch(jsUser, /faker\.string\.uuid\(\)/);
+
+    // Each target keeps its own cache in the shared project
+    for (const result of await run()) {
+      assert.deepEqual(result.written, []);
+      assert.equal(result.skipped.length, 2);
+    }
+
+    fs.unlinkSync(path.join(dir, "src", "order.ts"));
+    const [tsPruned, jsPruned] = await run();
+    assert.deepEqual(tsPruned.pruned, [path.join(mocks, "order.mock.ts")]);
+    assert.deepEqual(jsPruned.pruned.sort(), [
+      path.join(jsMocks, "order.mock.d.ts"),
+      path.join(jsMocks, "order.mock.js"),
+    ]);
+    assert.ok(!fs.existsSync(path.join(mocks, "order.mock.ts")));
+    assert.ok(fs.existsSync(path.join(jsMocks, "user.mock.js")));
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("tsconfig paths aliases and workspace packages are followed", () => {
+  const dir = setupFixture("aliases");
+  // The alias is declared in an extended tsconfig, the fixtures share theirs
+  fs.renameSync(
+    path.join(dir, "tsconfig.json"),
+    path.join(dir, "tsconfig.base.json")
+  );
+  fs.writeFileSync(
+    path.join(dir, "tsconfig.json"),
+    JSON.stringify({
+      extends: "./tsconfig.base.json",
+      compilerOptions: { baseUrl: ".", paths: { "@shared/*": ["shared/*"] } },
+    })
+  );
+  fs.mkdirSync(path.join(dir, "node_modules", "@acme"));
+  fs.symlinkSync(
+    path.join(dir, "packages", "team"),
+    path.join(dir, "node_modules", "@acme", "team"),
+    "junction"
+  );
+  const teamMock = path.join("packages", "team", "src", "index.mock.ts");
+  try {
+    generate(dir, { workspaces: true });
+    assert.deepEqual(typeCheck(dir), []);
+    const order = readMock(dir, "order.mock.ts");
+    assert.match(
+      order,
+      /import \{ MockMoney \} from '\.\/shared\/money\.mock';/
+    );
+    assert.match(
+      order,
+      /import \{ MockTeam \} from '\.\/packages\/team\/src\/index\.mock';/
+    );
+    assert.match(readMock(dir, teamMock), /export function MockTeam\(/);
+
+    // Without `workspaces` the package is left to externalTypes
+    fs.rmSync(path.join(dir, "mocks"), { recursive: true });
+    generate(dir);
+    assert.ok(
+      fs.existsSync(path.join(dir, "mocks", "shared", "money.mock.ts"))
+    );
+    assert.ok(!fs.existsSync(path.join(dir, "mocks", teamMock)));
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("externalTypes strategies", () => {
+  const dir = setupFixture("external");
+  // Copied rather than linked: a symlink would make them workspace packages
+  for (const name of ["stripe-lite", "money-lib"]) {
+    fs.cpSync(
+      path.join(dir, "packages", name),
+      path.join(dir, "node_modules", name),
+      { recursive: true }
+    );
+  }
+  const external = path.join(dir, "mocks", "$external");
+  try {
+    const { outputs } = generate(dir);
+    assert.deepEqual(typeCheck(dir), []);
+    assert.deepEqual([...outputs.keys()].sort(), [
+      path.join(external, "money-lib", "Decimal.mock.ts"),
+      path.join(external, "stripe-lite", "Address.mock.ts"),
+      path.join(external, "stripe-lite", "Customer.mock.ts"),
+      path.join(dir, "mocks", "order.mock.ts"),
+    ]);
+    const order = readMock(dir, "order.mock.ts");
+    assert.match(order, /import type \{ Customer \} from 'stripe-lite';/);
+    assert.match(
+      order,
+      /import \{ MockCustomer \} from '\.\/\$external\/stripe-lite\/Customer\.mock';/
+    );
+    assert.match(
+      readMock(dir, "$external/stripe-lite/Customer.mock.ts"),
+      /import \{ MockAddress \} from '\.\/Address\.mock';/
+    );
+
+    fs.rmSync(path.join(dir, "mocks"), { recursive: true });
+    generate(dir, {
+      externalTypes: {
+        "money-lib": { factories: "./factories/money" },
+        "*": "inline",
+      },
+    });
+    assert.deepEqual(typeCheck(dir), []);
+    assert.ok(!fs.existsSync(external));
+    const inlined = readMock(dir, "order.mock.ts");
+    assert.match(
+      inlined,
+      /import \{ MockDecimal \} from '\.\.\/factories\/money';/
+    );
+    assert.match(inlined, /"customer": \{ "id": .*"address": \{ "city": /);
+    assert.match(inlined, /"total": MockDecimal\(\)/);
+  } finally {
+    removeFixture(dir);
+  }
+});
+
+test("types sharing a name get distinct factories", () => {
+  const dir = setupFixture("names");
+  fs.cpSync(
+    path.join(dir, "packages", "money-lib"),
+    path.join(dir, "node_modules", "money-lib"),
+    { recursive: true }
+  );
+  try {
+    generate(dir);
+    assert.deepEqual(typeCheck(dir), []);
+    // Named after the directories telling them apart, not the local aliases
+    const order = readMock(dir, "order.mock.ts");
+    assert.match(
+      order,
+      /import type \{ Address as BillingAddress \} from '\.\.\/src\/billing\/address';/
+    );
+    assert.match(order, /"billing": MockBillingAddress\(\)/);
+    assert.match(order, /"shipping": MockShippingAddress\(\)/);
+    // The package type is prefixed with the package name
+    assert.match(
+      order,
+      /import \{ MockMoneyLibAddress \} from '\.\/\$external\/money-lib\/MoneyLibAddress\.mock';/
+    );
+    assert.match(order, /"ledger": MockMoneyLibAddress\(\)/);
+
+    generate(dir, {
+      typeNames: { "src/shipping/address.ts#Address": "DeliveryAddress" },
+      mappings: { "BillingAddress.street": "faker.location.streetAddress()" },
+    });
+    assert.deepEqual(typeCheck(dir), []);
+    assert.match(
+      readMock(dir, "order.mock.ts"),
+      /"shipping": MockDeliveryAddress\(\)/
+    );
+    assert.match(
+      readMock(dir, "shipping/address.mock.ts"),
+      /export function MockDeliveryAddress\(/
+    );
+    assert.match(
+      readMock(dir, "billing/address.mock.ts"),
+      /"street": faker\.location\.streetAddress\(\)/
+    );
+    assert.doesNotMatch(
+      readMock(dir, "shipping/address.mock.ts"),
+      /faker\.location\.streetAddress\(\)/
+    );
+  } finally {
+    removeFixture(dir);
+  }
+});
@@ -0,0 +1,87 @@
+// Shared helpers of the fixture tests: a fixture under test/fixtures/<name> is
+// copied to a temporary project, mocks are generated into its `mocks` directory
+// with the built library (npm test builds dist/cjs first), and the sources and
+// generated mocks are type-checked together.
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const ts = require("typescript");
+const typemockr = require("../dist/cjs");
+
+typemockr.setLogLevel("quiet");
+
+const repoRoot = path.resolve(__dirname, "..");
+
+// Copy a fixture to a new temporary directory, with the shared tsconfig and
+// @faker-js/faker resolvable from the generated mocks
+function setupFixture(name) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `typemockr-${name}-`));
+  fs.cpSync(path.join(__dirname, "fixtures", name), dir, { recursive: true });
+  fs.copyFileSync(
+    path.join(__dirname, "fixtures", "tsconfig.json"),
+    path.join(dir, "tsconfig.json")
+  );
+  fs.mkdirSync(path.join(dir, "node_modules", "@faker-js"), {
+    recursive: true,
+  });
+  fs.symlinkSync(
+    path.join(repoRoot, "node_modules", "@faker-js", "faker"),
+    path.join(dir, "node_modules", "@faker-js", "faker"),
+    "junction"
+  );
+  return dir;
+}
+
+function removeFixture(dir) {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+function generateOptions(dir, options = {}) {
+  return {
+    projectRootDir: dir,
+    include: ["src/**/*.ts"],
+    outputRootDir: path.join(dir, "mocks"),
+    baseDir: ["src"],
+    cache: false,
+    ...options,
+  };
+}
+
+function generate(dir, options) {
+  return typemockr.generateMocks(generateOptions(dir, options));
+}
+
+function readMock(dir, file) {
+  return fs.readFileSync(path.join(dir, "mocks", file), "utf-8");
+}
+
+// Type errors of the fixture sources and generated mocks, formatted one per entry
+function typeCheck(dir) {
+  const config = ts.getParsedCommandLineOfConfigFile(
+    path.join(dir, "tsconfig.json"),
+    {},
+    { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => {} }
+  );
+  const program = ts.createProgram(config.fileNames, config.options);
+  return ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+    const message = ts.flattenDiagnosticMessageText(
+      diagnostic.messageText,
+      "\n"
+    );
+    if (!diagnostic.file) return message;
+    const { line } = diagnostic.file.getLineAndCharacterOfPosition(
+      diagnostic.start ?? 0
+    );
+    return `${path.relative(dir, diagnostic.file.fileName)}:${line + 1}: ${message}`;
+  });
+}
+
+module.exports = {
+  typemockr,
+  setupFixture,
+  removeFixture,
+  generateOptions,
+  generate,
+  readMock,
+  typeCheck,
+};
@@ -0,0 +1,59 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { spawnSync } = require("child_process");
+const { typemockr } = require("./helpers");
+
+test("requiring the library entry has no side effects", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "typemockr-entry-"));
+  try {
+    // A fresh process, so nothing the tests loaded before can hide the effects
+    const { status, stdout, stderr } = spawnSync(
+      process.execPath,
+      [
+        "-e",
+        `require(${JSON.stringify(path.resolve(__dirname, "../dist/cjs"))})`,
+      ],
+      { cwd: dir, encoding: "utf-8", timeout: 30000 }
+    );
+    assert.equal(status, 0);
+    assert.equal(stdout, "");
+    assert.equal(stderr, "");
+    assert.deepEqual(fs.readdirSync(dir), []);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("in-memory sources are generated without touching the disk", () => {
+  const projectRootDir = path.join(os.tmpdir(), "typemockr-in-memory");
+  const outputRootDir = path.join(projectRootDir, "mocks");
+  const result = typemockr.generateMocks({
+    projectRootDir,
+    include: ["src/**/*.ts"],
+    outputRootDir,
+    baseDir: ["src"],
+    sources: {
+      "src/user.ts": [
+        `import type { Role } from "./role";`,
+        "export interface User { id: string; role: Role; tags: string[] }",
+      ].join("\n"),
+      "src/role.ts": `export type Role = "admin" | "member";`,
+    },
+    mappings: { "*.id": "faker.string.uuid()" },
+  });
+
+  assert.deepEqual([...result.outputs.keys()].sort(), [
+    path.join(outputRootDir, "role.mock.ts"),
+    path.join(outputRootDir, "user.mock.ts"),
+  ]);
+  const user = result.outputs.get(path.join(outputRootDir, "user.mock.ts"));
+  assert.match(user, /export function MockUser\(/);
+  assert.match(user, /"id": faker\.string\.uuid\(\)/);
+  // Role is resolved from the other in-memory file
+  assert.match(user, /"role": faker\.helpers\.arrayElement\(\["admin"/);
+  assert.deepEqual(result.written, []);
+  assert.ok(!fs.existsSync(projectRootDir));
+});
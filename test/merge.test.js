@@ -0,0 +1,116 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const path = require("path");
+const { pathToFileURL } = require("url");
+const {
+  setupFixture,
+  removeFixture,
+  generate,
+  typeCheck,
+} = require("./helpers");
+
+// Generate the merge fixture as JS and import its mocks
+async function importMocks(dir, options) {
+  generate(dir, { format: "js", ...options });
+  fs.writeFileSync(path.join(dir, "package.json"), '{ "type": "module" }');
+  return import(pathToFileURL(path.join(dir, "mocks", "order.mock.js")).href);
+}
+
+function withFixture(run) {
+  return async () => {
+    const dir = setupFixture("merge");
+    try {
+      await run(dir);
+    } finally {
+      removeFixture(dir);
+    }
+  };
+}
+
+test(
+  "nested overrides keep the generated siblings",
+  withFixture(async (dir) => {
+    const { MockOrder } = await importMocks(dir);
+    const order = MockOrder({ customer: { address: { city: "Paris" } } });
+    assert.equal(order.customer.address.city, "Paris");
+    assert.equal(typeof order.customer.address.zip, "string");
+    assert.equal(typeof order.customer.name, "string");
+    // An explicit undefined clears the generated value
+    assert.ok("note" in MockOrder({ note: undefined }));
+    assert.equal(MockOrder({ note: undefined }).note, undefined);
+  })
+);
+
+test(
+  "non-plain overrides are used as they are",
+  withFixture(async (dir) => {
+    const { MockOrder } = await importMocks(dir);
+    const placedAt = new Date(0);
+    const extra = new Map([["a", 1]]);
+    const order = MockOrder({ placedAt, extra });
+    assert.equal(order.placedAt, placedAt);
+    assert.equal(order.extra, extra);
+  })
+);
+
+test(
+  "overrides are not mutated by merging",
+  withFixture(async (dir) => {
+    const { MockOrder } = await importMocks(dir);
+    const overrides = { customer: { address: { city: "Paris" } } };
+    const first = MockOrder(overrides);
+    first.customer.address.zip = "changed";
+    assert.deepEqual(overrides, { customer: { address: { city: "Paris" } } });
+    assert.notEqual(MockOrder(overrides).customer.address.zip, "changed");
+  })
+);
+
+test(
+  "arrays replace the generated array by default",
+  withFixture(async (dir) => {
+    const { MockOrder } = await importMocks(dir);
+    const lines = [{ sku: "a", qty: 1 }];
+    assert.deepEqual(MockOrder({ lines }).lines, lines);
+  })
+);
+
+test(
+  'arrayMerge "index" merges item by item and skips holes',
+  withFixture(async (dir) => {
+    const { MockOrder } = await importMocks(dir, {
+      arrayMerge: "index",
+      seed: true,
+    });
+    const base = MockOrder({}, { seed: 1 });
+    const merged = MockOrder({ lines: [, { qty: 2 }] }, { seed: 1 });
+    assert.deepEqual(merged.lines[0], base.lines[0]);
+    assert.deepEqual(merged.lines[1], { ...base.lines[1], qty: 2 });
+    assert.equal(merged.lines.length, Math.max(base.lines.length, 2));
+  })
+);
+
+test(
+  "DeepPartial follows arrayMerge",
+  withFixture((dir) => {
+    // Kept out of src so generation doesn't parse it
+    const usage = (expectError) =>
+      [
+        `import { MockOrder } from "./order.mock";`,
+        `MockOrder({ customer: { address: { city: "Paris" } } });`,
+        `MockOrder({ placedAt: new Date() });`,
+        `// @ts-expect-error Dates are replaced, not merged`,
+        `MockOrder({ placedAt: {} });`,
+        ...(expectError
+          ? [`// @ts-expect-error replaced arrays take full items`]
+          : []),
+        `MockOrder({ lines: [{ qty: 2 }] });`,
+      ].join("\n");
+    generate(dir);
+    fs.writeFileSync(path.join(dir, "mocks", "usage.ts"), usage(true));
+    assert.deepEqual(typeCheck(dir), []);
+    generate(dir, { arrayMerge: "index" });
+    fs.writeFileSync(path.join(dir, "mocks", "usage.ts"), usage(false));
+    assert.deepEqual(typeCheck(dir), []);
+  })
+);
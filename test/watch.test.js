@@ -0,0 +1,60 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const path = require("path");
+const {
+  typemockr,
+  setupFixture,
+  removeFixture,
+  generateOptions,
+} = require("./helpers");
+
+// Poll until `done()` holds, failing after `timeoutMs`
+async function waitFor(done, timeoutMs = 10000) {
+  const started = Date.now();
+  while (!done()) {
+    if (Date.now() - started > timeoutMs) assert.fail("timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+test("watch prunes mocks of deleted sources unless they were edited", async () => {
+  const dir = setupFixture("tuples");
+  const src = path.join(dir, "src");
+  const mocks = path.join(dir, "mocks");
+  fs.writeFileSync(
+    path.join(src, "city.ts"),
+    "export interface City { name: string }\n"
+  );
+  const stop = typemockr.watchMocks(generateOptions(dir, { prune: true }), {
+    debounceMs: 20,
+  });
+  try {
+    const edited = path.join(mocks, "city.mock.ts");
+    fs.appendFileSync(edited, "// kept by hand\n");
+    fs.unlinkSync(path.join(src, "geo.ts"));
+    fs.unlinkSync(path.join(src, "city.ts"));
+    await waitFor(() => !fs.existsSync(path.join(mocks, "geo.mock.ts")));
+    assert.ok(fs.existsSync(edited));
+  } finally {
+    stop();
+    removeFixture(dir);
+  }
+});
+
+test("watch leaves mocks of deleted sources without prune", async () => {
+  const dir = setupFixture("tuples");
+  const mock = path.join(dir, "mocks", "geo.mock.ts");
+  const stop = typemockr.watchMocks(generateOptions(dir), { debounceMs: 20 });
+  try {
+    const manifest = path.join(dir, "mocks", ".typemockr-manifest.json");
+    const before = fs.statSync(manifest).mtimeMs;
+    fs.unlinkSync(path.join(dir, "src", "geo.ts"));
+    // The manifest is rewritten once the deletion has been processed
+    await waitFor(() => fs.statSync(manifest).mtimeMs !== before);
+    assert.ok(fs.existsSync(mock));
+  } finally {
+    stop();
+    removeFixture(dir);
+  }
+});